@@ -1,26 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-type Alert = {
-  message: string
-  type: "Reminder" | "Medicine"
-  isEveryday: boolean
-  selectedDays: string[]
-  hour: string
-  minute: string
-}
-
-type FormData = {
-  name: string
-  phone: string
-  email: string
-  medicalInfo: string
-  deviceId: number
-  alerts: Alert[]
-}
+import { validateCompartments } from "@/lib/compartments"
+import { validateAgainstCapabilities } from "@/lib/device-capabilities"
+import { withDosageMessage } from "@/lib/dosage"
+import { isPastOneOff, validateAlert } from "@/lib/schedule"
+import { lintSchedule } from "@/lib/schedule-lint"
+import type { ProcessAlertRequest } from "@/lib/types"
+import { WIRE_FORMAT_VERSIONS, formatAlertData } from "@/lib/wire-format"
 
 export async function POST(request: NextRequest) {
   try {
-    const data: FormData = await request.json()
+    const data: ProcessAlertRequest = await request.json()
 
     // Validate data
     if (!data.name || !data.phone || !data.email || !data.medicalInfo || !data.deviceId) {
@@ -31,76 +20,56 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Device ID must be between 1 and 100" }, { status: 400 })
     }
 
+    if (data.protocolVersion !== undefined && !WIRE_FORMAT_VERSIONS.includes(data.protocolVersion)) {
+      return NextResponse.json({ error: `Unsupported payload format v${data.protocolVersion}` }, { status: 400 })
+    }
+
     if (!data.alerts || data.alerts.length === 0) {
       return NextResponse.json({ error: "At least one alert is required" }, { status: 400 })
     }
 
+    // One-off alerts that have already passed are never sent.
+    const activeAlerts = data.alerts.filter((alert) => !isPastOneOff(alert))
+    const prunedCount = data.alerts.length - activeAlerts.length
+    if (activeAlerts.length === 0) {
+      return NextResponse.json({ error: "All one-off alerts are in the past" }, { status: 400 })
+    }
+    // The message sent for a structured dosage is always rendered from it.
+    data.alerts = activeAlerts.map(withDosageMessage)
+
+    const alertProblems = data.alerts.flatMap((alert, index) =>
+      validateAlert(alert).map((problem) => `Alert ${index + 1}: ${problem}`),
+    )
+    if (alertProblems.length > 0) {
+      return NextResponse.json({ error: alertProblems.join(" "), problems: alertProblems }, { status: 400 })
+    }
+
+    const compartmentProblems = validateCompartments(data.alerts)
+    if (compartmentProblems.length > 0) {
+      return NextResponse.json({ error: compartmentProblems.join(" "), problems: compartmentProblems }, { status: 400 })
+    }
+
+    if (data.capabilities) {
+      const problems = validateAgainstCapabilities(data, data.capabilities)
+      if (problems.length > 0) {
+        return NextResponse.json({ error: problems.join(" "), problems }, { status: 400 })
+      }
+    }
+
     // Format the output according to specifications
     const formattedOutput = formatAlertData(data)
 
+    // Warnings do not block processing; the dashboard shows them on each alert.
+    const warnings = lintSchedule(data.alerts, { nearCollisionMinutes: data.nearCollisionMinutes })
+
     return NextResponse.json({
       success: true,
       formattedOutput,
+      warnings,
+      prunedCount,
     })
   } catch (error) {
     console.error("Error processing alert:", error)
     return NextResponse.json({ error: "Failed to process alert data" }, { status: 500 })
   }
 }
-
-function formatAlertData(data: FormData): string {
-  const lines: string[] = []
-
-  // Expand alerts based on selected days
-  const expandedAlerts: Array<{ type: string; day: string; hour: string; minute: string; message: string }> = []
-
-  data.alerts.forEach((alert) => {
-    const type = alert.type === "Reminder" ? "r" : "m"
-    const hour = alert.hour.padStart(2, "0")
-    const minute = alert.minute.padStart(2, "0")
-    const message = alert.message
-
-    // If everyday, create alert for all 7 days
-    if (alert.isEveryday) {
-      for (let day = 0; day <= 6; day++) {
-        expandedAlerts.push({
-          type,
-          day: day.toString(),
-          hour,
-          minute,
-          message,
-        })
-      }
-    } else {
-      // Create alert for each selected day
-      alert.selectedDays.forEach((day) => {
-        expandedAlerts.push({
-          type,
-          day,
-          hour,
-          minute,
-          message,
-        })
-      })
-    }
-  })
-
-  // Line 1: Total number of expanded alerts
-  lines.push(expandedAlerts.length.toString())
-
-  // Lines 2-n: Each expanded alert formatted
-  expandedAlerts.forEach((alert) => {
-    lines.push(`${alert.type},${alert.day},${alert.hour},${alert.minute},${alert.message}`)
-  })
-
-  // Contact info line
-  lines.push(`${data.name},${data.phone},${data.email}`)
-
-  // Medical info line
-  lines.push(data.medicalInfo)
-
-  // Device ID line
-  lines.push(data.deviceId.toString())
-
-  return lines.join("\n")
-}
@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, ClipboardList, Printer } from "lucide-react"
+import { validateCompartments } from "@/lib/compartments"
+import { loadStoredDevices } from "@/lib/device-store"
+import { FILL_SHEET_DAYS, buildFillSheet } from "@/lib/fill-sheet"
+import { formatDate, formatTime, parseDateString, toDateString } from "@/lib/schedule"
+import type { StoredDevice } from "@/lib/types"
+
+const formatRowDay = (date: string) =>
+  parseDateString(date)?.toLocaleDateString([], { weekday: "short", day: "numeric", month: "short" }) ?? date
+
+// Printable list of which doses go into which dispenser compartment for a
+// week, opened from a device card as /database/fill-sheet?id={stored id}.
+export default function FillSheetPage() {
+  const [device, setDevice] = useState<StoredDevice | null | undefined>(undefined)
+  const [weekStart, setWeekStart] = useState(toDateString(new Date()))
+
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("id")
+    setDevice(loadStoredDevices().find((stored) => stored.id === id) ?? null)
+  }, [])
+
+  if (device === undefined) return null
+
+  if (device === null) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-8">
+        <div className="mx-auto max-w-5xl space-y-4">
+          <p className="text-muted-foreground">This device configuration no longer exists.</p>
+          <Link href="/database">
+            <Button variant="outline">Back to Database</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const start = parseDateString(weekStart) ?? new Date()
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + FILL_SHEET_DAYS - 1)
+  const rows = buildFillSheet(device.alerts, start)
+  const problems = validateCompartments(device.alerts)
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8 print:min-h-0 print:p-0">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 print:hidden">
+          <Link href="/database">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Database
+            </Button>
+          </Link>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="weekStart">Week starting</Label>
+              <Input
+                id="weekStart"
+                type="date"
+                value={weekStart}
+                onChange={(e) => e.target.value && setWeekStart(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => window.print()}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-start justify-between gap-4 border-b pb-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-2xl font-bold">
+              <ClipboardList className="h-6 w-6 print:hidden" />
+              Dispenser Fill Sheet
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {formatDate(toDateString(start))} – {formatDate(toDateString(end))}
+            </p>
+          </div>
+          <div className="text-right text-sm">
+            <p className="font-semibold">{device.name}</p>
+            <p>Device ID {device.deviceId}</p>
+            <p className="text-muted-foreground">Configuration of {new Date(device.timestamp).toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="rounded-lg border border-destructive p-3 text-sm text-destructive space-y-1">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        )}
+
+        {rows.length === 0 ? (
+          <p className="text-muted-foreground">No medicine doses are due in this week.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Time</TableHead>
+                <TableHead>Compartment</TableHead>
+                <TableHead>Medication</TableHead>
+                <TableHead>Dose</TableHead>
+                <TableHead>Instructions</TableHead>
+                <TableHead className="text-center">Filled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const newDay = index === 0 || rows[index - 1].date !== row.date
+                return (
+                  <TableRow key={`${row.date}@${formatTime(row.time)}`} className="break-inside-avoid align-top">
+                    <TableCell className="font-medium">{newDay && formatRowDay(row.date)}</TableCell>
+                    <TableCell className="font-mono">{formatTime(row.time)}</TableCell>
+                    <TableCell className="font-mono">
+                      {row.doses.map((dose, doseIndex) => (
+                        <div key={doseIndex}>{dose.compartment ?? "—"}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="whitespace-normal">
+                      {row.doses.map((dose, doseIndex) => (
+                        <div key={doseIndex}>
+                          {dose.medication}
+                          {dose.strength && <span className="text-muted-foreground"> {dose.strength}</span>}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {row.doses.map((dose, doseIndex) => (
+                        <div key={doseIndex}>{[dose.dose, dose.route].filter(Boolean).join(" ") || "—"}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="whitespace-normal">
+                      {row.doses.map((dose, doseIndex) => (
+                        <div key={doseIndex}>{dose.instructions || "—"}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {row.doses.map((_, doseIndex) => (
+                        <div key={doseIndex}>☐</div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {rows.some((row) => row.doses.some((dose) => dose.compartment === undefined)) && (
+          <p className="text-xs text-muted-foreground">
+            Doses marked — have no compartment: the RXbot sounds the alert but does not dispense them.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-8 pt-8 text-sm">
+          <div className="border-t pt-2">Filled by / date</div>
+          <div className="border-t pt-2">Checked by / date</div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,31 +4,28 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Database, Trash2, Download, ArrowLeft, Calendar, Clock, User, Pill, Phone, Mail } from "lucide-react"
+import { Database, Trash2, Download, ArrowLeft, BellRing, Calendar, CalendarRange, Clock, User, Pill, Phone, Mail, PackageOpen, Printer, Tablets } from "lucide-react"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
 import { useToast } from "@/hooks/use-toast"
-
-type StoredDevice = {
-  id: string
-  timestamp: string
-  name: string
-  phone: string
-  email: string
-  medicalInfo: string
-  deviceId: number
-  alerts: Array<{
-    message: string
-    type: "Reminder" | "Medicine"
-    isEveryday: boolean
-    selectedDays: string[]
-    hour: string
-    minute: string
-  }>
-  formattedOutput: string
-}
+import { AlertTypeBadge } from "@/components/alert-type-badge"
+import { MedicationTable } from "@/components/medication-table"
+import { ScheduleTimeline } from "@/components/schedule-timeline"
+import { clearStoredDevices, loadStoredDevices, saveStoredDevices } from "@/lib/device-store"
+import { REFILL_WARNING_DAYS, describeStockForecast, forecastStock, needsRefill } from "@/lib/inventory"
+import {
+  countOccurrencesByDay,
+  describeAlertCourse,
+  describeAlertFollowUp,
+  describeAlertSchedule,
+  isAlertExpired,
+} from "@/lib/schedule"
+import type { StoredDevice } from "@/lib/types"
+import { countDeviceSlots } from "@/lib/wire-format"
 
 export default function DatabasePage() {
   const { toast } = useToast()
+  const router = useRouter()
   const [devices, setDevices] = useState<StoredDevice[]>([])
 
   useEffect(() => {
@@ -36,21 +33,13 @@ export default function DatabasePage() {
   }, [])
 
   const loadDevices = () => {
-    const stored = localStorage.getItem("medicalAlertDevices")
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored)
-        setDevices(parsed)
-      } catch (error) {
-        console.error("[v0] Error loading devices:", error)
-      }
-    }
+    setDevices(loadStoredDevices())
   }
 
   const deleteDevice = (id: string) => {
     const updated = devices.filter((device) => device.id !== id)
     setDevices(updated)
-    localStorage.setItem("medicalAlertDevices", JSON.stringify(updated))
+    saveStoredDevices(updated)
     toast({
       title: "Device Deleted",
       description: "Device configuration has been removed from the database.",
@@ -77,7 +66,7 @@ export default function DatabasePage() {
   const clearAllDevices = () => {
     if (confirm("Are you sure you want to delete all device configurations? This action cannot be undone.")) {
       setDevices([])
-      localStorage.removeItem("medicalAlertDevices")
+      clearStoredDevices()
       toast({
         title: "Database Cleared",
         description: "All device configurations have been removed.",
@@ -90,18 +79,24 @@ export default function DatabasePage() {
     return days[Number.parseInt(day)] || day
   }
 
+  // Logical alerts are weekly occurrences; slots are what the device stores,
+  // which is the same under v1 but one per alert under the v2 bitmask format.
   const getTotalExpandedAlerts = (device: StoredDevice) => {
-    let total = 0
+    let logical = 0
     device.alerts.forEach((alert) => {
-      if (alert.isEveryday) {
-        total += 7
-      } else {
-        total += alert.selectedDays.length
-      }
+      countOccurrencesByDay(alert).forEach((count) => {
+        logical += count
+      })
     })
-    return total
+    return { logical, slots: countDeviceSlots(device.alerts, device.protocolVersion) }
   }
 
+  const getRefillsDue = (device: StoredDevice) => forecastStock(device.alerts).filter(needsRefill)
+
+  const refillsDue = devices.flatMap((device) =>
+    getRefillsDue(device).map((forecast) => ({ deviceId: device.deviceId, forecast })),
+  )
+
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
       <div className="mx-auto max-w-7xl">
@@ -142,7 +137,7 @@ export default function DatabasePage() {
           </Card>
         ) : (
           <div className="space-y-6">
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <Card>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-sm font-medium">Total Devices</CardTitle>
@@ -157,8 +152,35 @@ export default function DatabasePage() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-3xl font-bold">
-                    {devices.reduce((sum, device) => sum + getTotalExpandedAlerts(device), 0)}
+                    {devices.reduce((sum, device) => sum + getTotalExpandedAlerts(device).logical, 0)}
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    {devices.reduce((sum, device) => sum + getTotalExpandedAlerts(device).slots, 0)} device slots
+                  </p>
+                </CardContent>
+              </Card>
+              <Card className={refillsDue.length > 0 ? "border-amber-500/50" : undefined}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <PackageOpen className="h-4 w-4" />
+                    Refills Due
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{refillsDue.length}</div>
+                  {refillsDue.length > 0 ? (
+                    <ul className="text-xs text-amber-600 dark:text-amber-500 space-y-1">
+                      {refillsDue.map(({ deviceId, forecast }) => (
+                        <li key={`${deviceId}-${forecast.medication}`}>
+                          Device {deviceId} · {forecast.medication}: {describeStockForecast(forecast)}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      No counted medication runs out within {REFILL_WARNING_DAYS} days
+                    </p>
+                  )}
                 </CardContent>
               </Card>
               <Card>
@@ -180,11 +202,30 @@ export default function DatabasePage() {
                     <div>
                       <CardTitle className="flex items-center gap-2">
                         Device ID: {device.deviceId}
-                        <Badge variant="outline">{getTotalExpandedAlerts(device)} alerts</Badge>
+                        <Badge variant="outline">{getTotalExpandedAlerts(device).logical} alerts</Badge>
+                        <Badge variant="outline">
+                          {getTotalExpandedAlerts(device).slots} slots · v{device.protocolVersion ?? 1}
+                        </Badge>
+                        {device.syncedAt && <Badge variant="secondary">On device</Badge>}
+                        {getRefillsDue(device).length > 0 && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-600 dark:text-amber-500">
+                            Refill due
+                          </Badge>
+                        )}
                       </CardTitle>
-                      <CardDescription>Created: {new Date(device.timestamp).toLocaleString()}</CardDescription>
+                      <CardDescription>
+                        Created: {new Date(device.timestamp).toLocaleString()}
+                        {device.syncedAt && ` · Sent to device: ${new Date(device.syncedAt).toLocaleString()}`}
+                      </CardDescription>
                     </div>
                     <div className="flex gap-2">
+                      {device.alerts.some((alert) => alert.type === "Medicine") && (
+                        <Link href={`/database/fill-sheet?id=${device.id}`}>
+                          <Button variant="outline" size="sm" title="Print fill sheet">
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      )}
                       <Button variant="outline" size="sm" onClick={() => downloadDevice(device)}>
                         <Download className="h-4 w-4" />
                       </Button>
@@ -236,15 +277,26 @@ export default function DatabasePage() {
                         {device.alerts.map((alert, index) => (
                           <div key={index} className="rounded-lg border border-border bg-muted/30 p-3 space-y-2">
                             <div className="flex items-center justify-between">
-                              <Badge variant={alert.type === "Medicine" ? "default" : "secondary"}>{alert.type}</Badge>
+                              <AlertTypeBadge type={alert.type} />
                               <div className="flex items-center gap-1 text-xs text-muted-foreground">
                                 <Clock className="h-3 w-3" />
-                                {alert.hour.padStart(2, "0")}:{alert.minute.padStart(2, "0")}
+                                {describeAlertSchedule(alert)}
                               </div>
                             </div>
                             <p className="text-sm font-medium">{alert.message}</p>
                             <div className="flex flex-wrap gap-1">
-                              {alert.isEveryday ? (
+                              {alert.kind === "once" ? (
+                                <>
+                                  <Badge variant="outline" className="text-xs">
+                                    One-off
+                                  </Badge>
+                                  {isAlertExpired(alert) && (
+                                    <Badge variant="destructive" className="text-xs">
+                                      Past
+                                    </Badge>
+                                  )}
+                                </>
+                              ) : alert.isEveryday ? (
                                 <Badge variant="outline" className="text-xs">
                                   Everyday
                                 </Badge>
@@ -256,12 +308,50 @@ export default function DatabasePage() {
                                 ))
                               )}
                             </div>
+                            {describeAlertFollowUp(alert) && (
+                              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                <BellRing className="h-3 w-3" />
+                                {describeAlertFollowUp(alert)}
+                              </div>
+                            )}
+                            {describeAlertCourse(alert) && (
+                              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                <Calendar className="h-3 w-3" />
+                                {describeAlertCourse(alert)}
+                                {isAlertExpired(alert) && (
+                                  <Badge variant="destructive" className="text-xs">
+                                    Expired
+                                  </Badge>
+                                )}
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
                     </div>
                   </div>
 
+                  <div>
+                    <h4 className="font-semibold mb-3 flex items-center gap-2">
+                      <CalendarRange className="h-4 w-4" />
+                      Weekly Timeline
+                    </h4>
+                    <ScheduleTimeline
+                      alerts={device.alerts}
+                      onSelectAlert={(index) => router.push(`/?edit=${device.id}&alert=${index}`)}
+                    />
+                  </div>
+
+                  {device.alerts.some((alert) => alert.type === "Medicine") && (
+                    <div>
+                      <h4 className="font-semibold mb-3 flex items-center gap-2">
+                        <Tablets className="h-4 w-4" />
+                        Medications
+                      </h4>
+                      <MedicationTable alerts={device.alerts} />
+                    </div>
+                  )}
+
                   <div>
                     <h4 className="font-semibold mb-2 text-sm">Formatted Output</h4>
                     <pre className="text-xs bg-muted p-3 rounded-lg overflow-x-auto whitespace-pre-wrap break-all font-mono">
@@ -1,26 +1,95 @@
 "use client"
 
 import type React from "react"
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Checkbox } from "@/components/ui/checkbox"
-import { Plus, Trash2, Bell, User, Pill, Calendar, Download, Usb, Database } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import {
+  Plus,
+  Bell,
+  CalendarRange,
+  User,
+  Pill,
+  Calendar,
+  Download,
+  Upload,
+  Usb,
+  Database,
+  FileSearch,
+  Clock,
+  Grid3x3,
+  PackageOpen,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { createSerialLink, type SerialLink } from "@/lib/serial-link"
+import {
+  type SendResult,
+  readCapabilities,
+  readConfiguration,
+  readDeviceClock,
+  sendConfiguration,
+  setDeviceClock,
+} from "@/lib/device-protocol"
+import { computeDelta, sendDelta } from "@/lib/delta-protocol"
+import { validateCompartments } from "@/lib/compartments"
+import { describeStockForecast, forecastStock, needsRefill } from "@/lib/inventory"
+import {
+  describeCapabilities,
+  supportsExtendedAlertTypes,
+  validateAgainstCapabilities,
+} from "@/lib/device-capabilities"
+import { withDosageMessage } from "@/lib/dosage"
+import { isPastOneOff, validateAlert } from "@/lib/schedule"
+import { DEFAULT_NEAR_COLLISION_MINUTES, type ScheduleWarning, lintSchedule } from "@/lib/schedule-lint"
+import {
+  findSyncedDevice,
+  loadStoredDevices,
+  markDeviceSynced,
+  replacePrunedOutput,
+  saveStoredDevice,
+} from "@/lib/device-store"
+import type { DeviceCapabilities, EditableAlert, FormData, StoredDevice } from "@/lib/types"
+import {
+  DEFAULT_WIRE_FORMAT_VERSION,
+  type DecodedFrame,
+  countDeviceSlots,
+  formatAlertData,
+  getFrameChecksum,
+  parseAlertData,
+  toFormData,
+} from "@/lib/wire-format"
+import { type DeviceCharset, normalizeCharset } from "@/lib/charset"
+import { AlertEditor } from "@/components/alert-editor"
+import { ScheduleTimeline } from "@/components/schedule-timeline"
+import { CompartmentGrid } from "@/components/compartment-grid"
+import { DeviceAudit } from "@/components/device-audit"
+import { SerialConsole } from "@/components/serial-console"
 import Link from "next/link"
 
-type Alert = {
-  id: string
-  message: string
-  type: "Reminder" | "Medicine"
-  isEveryday: boolean
-  selectedDays: string[]
-  hour: string
-  minute: string
+type Alert = EditableAlert
+
+type ClockSync = {
+  driftBefore: number
+  driftAfter: number
+  weekdayMismatch: boolean
+}
+
+// Device clock drift in whole seconds; positive means the device is ahead.
+const formatDrift = (seconds: number) => {
+  if (Math.abs(seconds) <= 1) return "in sync"
+  const abs = Math.abs(seconds)
+  const parts = [
+    Math.floor(abs / 86400) && `${Math.floor(abs / 86400)}d`,
+    Math.floor((abs % 86400) / 3600) && `${Math.floor((abs % 86400) / 3600)}h`,
+    Math.floor((abs % 3600) / 60) && `${Math.floor((abs % 3600) / 60)}m`,
+    abs % 60 && `${abs % 60}s`,
+  ].filter(Boolean)
+  return `${parts.join(" ")} ${seconds > 0 ? "ahead" : "behind"}`
 }
 
 export default function MedicalAlertDashboard() {
@@ -30,11 +99,81 @@ export default function MedicalAlertDashboard() {
   const [email, setEmail] = useState("")
   const [medicalInfo, setMedicalInfo] = useState("")
   const [deviceId, setDeviceId] = useState("")
+  const [protocolVersion, setProtocolVersion] = useState(DEFAULT_WIRE_FORMAT_VERSION.toString())
+  const [charset, setCharset] = useState<DeviceCharset>("ascii")
+  const [extendedAlertTypes, setExtendedAlertTypes] = useState(false)
   const [alerts, setAlerts] = useState<Alert[]>([])
   const [formattedOutput, setFormattedOutput] = useState<string>("")
   const [serialPort, setSerialPort] = useState<any>(null)
+  const [serialLink, setSerialLink] = useState<SerialLink | null>(null)
   const [isConnected, setIsConnected] = useState(false)
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [transferProgress, setTransferProgress] = useState<number | null>(null)
+  const transferAbortRef = useRef<AbortController | null>(null)
+  const [isReading, setIsReading] = useState(false)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [clockSync, setClockSync] = useState<ClockSync | null>(null)
+  const [deviceConfig, setDeviceConfig] = useState<FormData | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [pendingFocusIndex, setPendingFocusIndex] = useState<number | null>(null)
+  // Stored configuration opened with ?edit; processing updates it instead of saving a new one.
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // Read from localStorage once mounted and again after every save.
+  const [storedDevices, setStoredDevices] = useState<StoredDevice[]>([])
+  const [nearCollisionMinutes, setNearCollisionMinutes] = useState(DEFAULT_NEAR_COLLISION_MINUTES.toString())
+  // Warnings the API returned for the last processed schedule, until it changes.
+  const [serverWarnings, setServerWarnings] = useState<ScheduleWarning[]>([])
+
+  const clientWarnings = lintSchedule(alerts, { nearCollisionMinutes: Number.parseInt(nearCollisionMinutes) || 0 })
+  const scheduleWarnings = [
+    ...clientWarnings,
+    ...serverWarnings.filter((warning) => !clientWarnings.some(({ message }) => message === warning.message)),
+  ]
+  const stockForecasts = forecastStock(alerts)
+  const refillsDue = stockForecasts.filter(needsRefill)
+
+  useEffect(() => {
+    setServerWarnings([])
+  }, [alerts, nearCollisionMinutes])
+
+  useEffect(() => {
+    setStoredDevices(loadStoredDevices())
+  }, [])
+
+  // The database page links here with ?edit={stored device id}&alert={index}
+  // to open one of a device's alerts for editing.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const storedId = params.get("edit")
+    if (!storedId) return
+
+    window.history.replaceState(null, "", window.location.pathname)
+    const device = loadStoredDevices().find((stored) => stored.id === storedId)
+    if (!device) {
+      toast({
+        title: "Device Not Found",
+        description: "The saved configuration no longer exists.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    loadIntoForm(device, device.id)
+    setPendingFocusIndex(Number.parseInt(params.get("alert") ?? "0") || 0)
+  }, [])
 
+  useEffect(() => {
+    if (pendingFocusIndex === null || !alerts[pendingFocusIndex]) return
+    focusAlert(alerts[pendingFocusIndex].id)
+    setPendingFocusIndex(null)
+  }, [alerts, pendingFocusIndex])
+
+  const focusAlert = (id: string) => {
+    const input = document.getElementById(`message-${id}`)
+    input?.scrollIntoView({ behavior: "smooth", block: "center" })
+    input?.focus({ preventScroll: true })
+  }
 
   const addAlert = () => {
     const newAlert: Alert = {
@@ -53,37 +192,12 @@ export default function MedicalAlertDashboard() {
     setAlerts(alerts.filter((alert) => alert.id !== id))
   }
 
-  const updateAlert = (id: string, field: keyof Alert, value: any) => {
-    setAlerts(alerts.map((alert) => (alert.id === id ? { ...alert, [field]: value } : alert)))
-  }
-
-  const toggleDay = (alertId: string, day: string) => {
-    setAlerts(
-      alerts.map((alert) => {
-        if (alert.id === alertId) {
-          const selectedDays = alert.selectedDays.includes(day)
-            ? alert.selectedDays.filter((d) => d !== day)
-            : [...alert.selectedDays, day]
-          return { ...alert, selectedDays }
-        }
-        return alert
-      }),
-    )
+  const updateAlert = (id: string, changes: Partial<Alert>) => {
+    setAlerts(alerts.map((alert) => (alert.id === id ? { ...alert, ...changes } : alert)))
   }
 
-  const toggleEveryday = (alertId: string, checked: boolean) => {
-    setAlerts(
-      alerts.map((alert) => {
-        if (alert.id === alertId) {
-          return {
-            ...alert,
-            isEveryday: checked,
-            selectedDays: checked ? [] : alert.selectedDays,
-          }
-        }
-        return alert
-      }),
-    )
+  const updateCompartments = (changes: Map<number, Record<string, string> | undefined>) => {
+    setAlerts(alerts.map((alert, index) => (changes.has(index) ? { ...alert, compartments: changes.get(index) } : alert)))
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -108,22 +222,36 @@ export default function MedicalAlertDashboard() {
       return
     }
 
-    if (alerts.length === 0) {
+    // One-off alerts whose time has already passed would never fire; drop them before sending.
+    const activeAlerts = alerts.filter((alert) => !isPastOneOff(alert))
+    const prunedCount = alerts.length - activeAlerts.length
+    if (prunedCount > 0) setAlerts(activeAlerts)
+
+    if (activeAlerts.length === 0) {
       toast({
         title: "No Alerts",
-        description: "Please add at least one alert.",
+        description:
+          prunedCount > 0 ? "All one-off alerts are in the past. Please add an alert." : "Please add at least one alert.",
         variant: "destructive",
       })
       return
     }
 
-    const invalidAlerts = alerts.filter(
-      (alert) => !alert.message.trim() || (!alert.isEveryday && alert.selectedDays.length === 0),
-    )
-    if (invalidAlerts.length > 0) {
+    const invalidIndex = activeAlerts.findIndex((alert) => validateAlert(alert).length > 0)
+    if (invalidIndex !== -1) {
       toast({
         title: "Invalid Alerts",
-        description: "All alerts must have a message and at least one day selected.",
+        description: `Alert ${invalidIndex + 1}: ${validateAlert(activeAlerts[invalidIndex]).join(" ")}`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    const compartmentProblems = validateCompartments(activeAlerts)
+    if (compartmentProblems.length > 0) {
+      toast({
+        title: "Compartment Conflict",
+        description: compartmentProblems.join(" "),
         variant: "destructive",
       })
       return
@@ -135,7 +263,24 @@ export default function MedicalAlertDashboard() {
       email,
       medicalInfo,
       deviceId: deviceIdNum,
-      alerts,
+      protocolVersion: Number.parseInt(protocolVersion),
+      charset,
+      extendedAlertTypes,
+      alerts: activeAlerts,
+      nearCollisionMinutes: Number.parseInt(nearCollisionMinutes) || 0,
+      ...(capabilities && { capabilities }),
+    }
+
+    if (capabilities) {
+      const problems = validateAgainstCapabilities(formData, capabilities)
+      if (problems.length > 0) {
+        toast({
+          title: "Exceeds Device Limits",
+          description: problems.join(" "),
+          variant: "destructive",
+        })
+        return
+      }
     }
 
     try {
@@ -151,27 +296,39 @@ export default function MedicalAlertDashboard() {
 
       if (response.ok) {
         setFormattedOutput(data.formattedOutput)
+        setServerWarnings(data.warnings ?? [])
 
-        const deviceConfig = {
-          id: Math.random().toString(36).substr(2, 9),
+        const storedDevice: StoredDevice = {
+          id: editingId ?? Math.random().toString(36).substr(2, 9),
           timestamp: new Date().toISOString(),
           name,
           phone,
           email,
           medicalInfo,
           deviceId: deviceIdNum,
-          alerts,
+          protocolVersion: Number.parseInt(protocolVersion),
+          charset,
+          extendedAlertTypes,
+          alerts: activeAlerts,
           formattedOutput: data.formattedOutput,
         }
 
-        const stored = localStorage.getItem("medicalAlertDevices")
-        const devices = stored ? JSON.parse(stored) : []
-        devices.unshift(deviceConfig)
-        localStorage.setItem("medicalAlertDevices", JSON.stringify(devices))
+        const saved = saveStoredDevice(storedDevice)
+        setStoredDevices(loadStoredDevices())
+        if (editingId) setEditingId(saved.id)
 
+        const notes = [
+          prunedCount > 0 && `Removed ${prunedCount} past one-off alert(s).`,
+          data.warnings?.length > 0 && `${data.warnings.length} schedule warning(s) to review.`,
+        ].filter(Boolean)
         toast({
           title: "Success!",
-          description: "Alert configuration has been processed and saved.",
+          description: [
+            editingId
+              ? "Alert configuration has been processed and the saved configuration updated."
+              : "Alert configuration has been processed and saved.",
+            ...notes,
+          ].join(" "),
         })
       } else {
         toast({
@@ -215,6 +372,62 @@ export default function MedicalAlertDashboard() {
     })
   }
 
+  const getFormData = (): FormData => ({
+    name,
+    phone,
+    email,
+    medicalInfo,
+    deviceId: Number.parseInt(deviceId) || 0,
+    protocolVersion: Number.parseInt(protocolVersion),
+    charset,
+    extendedAlertTypes,
+    alerts,
+  })
+
+  const loadIntoForm = (data: FormData, storedId: string | null = null) => {
+    setEditingId(storedId)
+    setName(data.name)
+    setPhone(data.phone)
+    setEmail(data.email)
+    setMedicalInfo(data.medicalInfo)
+    setDeviceId(data.deviceId.toString())
+    setProtocolVersion((data.protocolVersion ?? DEFAULT_WIRE_FORMAT_VERSION).toString())
+    if (data.charset) setCharset(normalizeCharset(data.charset))
+    setExtendedAlertTypes(data.extendedAlertTypes ?? false)
+    setAlerts(data.alerts.map((alert) => ({ ...withDosageMessage(alert), id: Math.random().toString(36).substr(2, 9) })))
+    setFormattedOutput("")
+  }
+
+  const importFromFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const frame = parseAlertData(await file.text())
+      const data = toFormData(frame)
+      loadIntoForm(data)
+
+      toast({
+        title: "Configuration Imported",
+        description: [
+          `Loaded ${data.alerts.length} alerts from ${file.name}.`,
+          !frame.verified && "The file has no checksum, so it could not be verified.",
+          "Review and process to save.",
+        ]
+          .filter(Boolean)
+          .join(" "),
+      })
+    } catch (error: any) {
+      console.error("[v0] Error importing file:", error)
+      toast({
+        title: "Import Failed",
+        description: error?.message || "The file is not a valid alert configuration.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const connectToDevice = async () => {
     if (!("serial" in navigator)) {
       toast({
@@ -233,12 +446,27 @@ export default function MedicalAlertDashboard() {
       })
 
       await port.open({ baudRate: 115200 })
+      const link = createSerialLink(port)
       setSerialPort(port)
+      setSerialLink(link)
       setIsConnected(true)
 
+      // Firmware without the capability handshake simply times out here.
+      const deviceCapabilities = await readCapabilities(link).catch((error) => {
+        console.error("[UART] Capability handshake failed:", error)
+        return null
+      })
+      setCapabilities(deviceCapabilities)
+      if (deviceCapabilities) {
+        setCharset(normalizeCharset(deviceCapabilities.charset))
+        setExtendedAlertTypes(supportsExtendedAlertTypes(deviceCapabilities))
+      }
+
       toast({
         title: "Connected",
-        description: "Successfully connected to CP2102 device.",
+        description: deviceCapabilities
+          ? `Successfully connected to CP2102 device (${describeCapabilities(deviceCapabilities)}).`
+          : "Connected to CP2102 device, but it did not report its capabilities.",
       })
     } catch (error) {
       console.error("[v0] Error connecting to device:", error)
@@ -253,9 +481,13 @@ export default function MedicalAlertDashboard() {
   const disconnectFromDevice = async () => {
     if (serialPort) {
       try {
+        await serialLink?.close()
         await serialPort.close()
         setSerialPort(null)
+        setSerialLink(null)
         setIsConnected(false)
+        setCapabilities(null)
+        setClockSync(null)
 
         toast({
           title: "Disconnected",
@@ -267,36 +499,211 @@ export default function MedicalAlertDashboard() {
     }
   }
 
+  const planIncrementalUpdate = (frame: DecodedFrame) => {
+    const baseline = findSyncedDevice(frame.deviceId)
+    if (!baseline) return null
+
+    try {
+      return computeDelta(parseAlertData(baseline.formattedOutput), frame)
+    } catch (error) {
+      console.error("[UART] Stored baseline is unreadable, skipping incremental update:", error)
+      return null
+    }
+  }
+
   const sendToUART = async () => {
-    if (!formattedOutput) return console.error("No data to send")
-    if (!serialPort || !isConnected) return console.error("Serial not connected")
+    if (!formattedOutput) {
+      toast({
+        title: "No Data",
+        description: "Please process the alert configuration first.",
+        variant: "destructive",
+      })
+      return
+    }
+    if (!serialLink || !isConnected) {
+      toast({
+        title: "Not Connected",
+        description: "Connect to the CP2102 device before sending.",
+        variant: "destructive",
+      })
+      return
+    }
 
+    // Work from what will actually go over the wire, not the form, which may have changed since processing.
+    let output = formattedOutput
+    let frame = parseAlertData(output)
+
+    // One-off alerts that have passed since processing are dropped before sending.
+    const decoded = toFormData(frame)
+    const activeAlerts = decoded.alerts.filter((alert) => !isPastOneOff(alert))
+    const prunedCount = decoded.alerts.length - activeAlerts.length
+    if (prunedCount > 0) {
+      if (activeAlerts.length === 0) {
+        toast({
+          title: "No Alerts",
+          description: "All one-off alerts in this configuration are in the past.",
+          variant: "destructive",
+        })
+        return
+      }
+      output = formatAlertData({ ...decoded, alerts: activeAlerts })
+      frame = parseAlertData(output)
+      replacePrunedOutput(formattedOutput, output)
+      setStoredDevices(loadStoredDevices())
+      setFormattedOutput(output)
+    }
+
+    if (capabilities) {
+      const problems = validateAgainstCapabilities(toFormData(frame), capabilities)
+      if (problems.length > 0) {
+        toast({
+          title: "Exceeds Device Limits",
+          description: problems.join(" "),
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
+    const controller = new AbortController()
+    transferAbortRef.current = controller
+    const transferOptions = {
+      signal: controller.signal,
+      onProgress: (sent: number, total: number) => setTransferProgress(total > 0 ? (sent / total) * 100 : 0),
+    }
+
+    setIsSending(true)
+    setTransferProgress(0)
     try {
-      const writer = serialPort.writable?.getWriter()
-      if (!writer) throw new Error("Cannot get writer")
+      // Prefer an incremental update against the last configuration this device
+      // acknowledged; fall back to a full send if it is not smaller or fails.
+      const commands = planIncrementalUpdate(frame)
+      const checksum = getFrameChecksum(output)
+      let result: SendResult | null = null
 
-      const encoder = new TextEncoder()
-      const data = encoder.encode(formattedOutput + "\n")
+      if (commands && checksum && commands.join("\n").length < output.length) {
+        result = await sendDelta(serialLink, commands, checksum, transferOptions)
+        if (result.status !== "ack" && result.status !== "cancelled") {
+          console.warn("[UART] Incremental update failed, sending full configuration:", result)
+        }
+      }
+      const sentIncrementally = result?.status === "ack"
+      const cancelledIncrementally = result?.status === "cancelled"
+      if (!result || (result.status !== "ack" && result.status !== "cancelled")) {
+        result = await sendConfiguration(serialLink, output, {
+          ...transferOptions,
+          // Firmware that reports its receive buffer acknowledges every chunk.
+          chunkSize: capabilities?.bufferSize ?? 64,
+          acknowledgeChunks: !!capabilities?.bufferSize,
+        })
+      }
 
-      console.log("[UART] Sending data...")
-      await writer.write(data)
-      writer.releaseLock()
-      console.log(`[UART] Data written (${data.length} bytes), waiting for ACK...`)
+      if (result.status === "ack") {
+        markDeviceSynced(output)
+        setStoredDevices(loadStoredDevices())
+        toast({
+          title: "Configuration Sent",
+          description: [
+            sentIncrementally
+              ? `Device applied ${commands?.length} incremental changes and confirmed the checksum.`
+              : `Device acknowledged the configuration (attempt ${result.attempts}).`,
+            prunedCount > 0 && `Removed ${prunedCount} past one-off alert(s) before sending.`,
+          ]
+            .filter(Boolean)
+            .join(" "),
+        })
+      } else if (result.status === "cancelled") {
+        toast({
+          title: "Transfer Cancelled",
+          description:
+            cancelledIncrementally
+              ? "Changes the device had already applied stay in place; send again to finish updating it."
+              : "The device discarded the partial configuration.",
+        })
+      } else if (result.status === "checksum") {
+        toast({
+          title: "Checksum Mismatch",
+          description: `Device received ${result.received}, expected ${result.expected} after ${result.attempts} attempts.`,
+          variant: "destructive",
+        })
+      } else if (result.status === "nack") {
+        toast({
+          title: "Device Rejected Configuration",
+          description: `${result.reason} (code ${result.code}) after ${result.attempts} attempts.`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "No Response",
+          description: `Device did not acknowledge after ${result.attempts} attempts.`,
+          variant: "destructive",
+        })
+      }
     } catch (err: any) {
       console.error("[UART] Error sending data:", err)
+      toast({
+        title: "Transmission Failed",
+        description: err?.message || "Failed to write to the serial port.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSending(false)
+      setTransferProgress(null)
+      transferAbortRef.current = null
     }
   }
 
+  const isBusy = isSending || isReading || isSyncing
 
-  const daysOfWeek = [
-    { value: "0", label: "Sun" },
-    { value: "1", label: "Mon" },
-    { value: "2", label: "Tue" },
-    { value: "3", label: "Wed" },
-    { value: "4", label: "Thu" },
-    { value: "5", label: "Fri" },
-    { value: "6", label: "Sat" },
-  ]
+  const readFromDevice = async () => {
+    if (!serialLink || !isConnected) return
+
+    setIsReading(true)
+    try {
+      setDeviceConfig(await readConfiguration(serialLink))
+    } catch (err: any) {
+      console.error("[UART] Error reading configuration:", err)
+      toast({
+        title: "Read Failed",
+        description: err?.message || "Failed to read the configuration from the device.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const syncClock = async () => {
+    if (!serialLink || !isConnected) return
+
+    setIsSyncing(true)
+    try {
+      const driftOf = (deviceTime: Date) => Math.round((deviceTime.getTime() - Date.now()) / 1000)
+
+      const before = await readDeviceClock(serialLink)
+      const driftBefore = driftOf(before.time)
+      const weekdayMismatch = before.weekday !== before.time.getDay()
+
+      await setDeviceClock(serialLink, new Date())
+      const after = await readDeviceClock(serialLink)
+      const result = { driftBefore, driftAfter: driftOf(after.time), weekdayMismatch }
+      setClockSync(result)
+
+      toast({
+        title: "Clock Synchronized",
+        description: `Device clock was ${formatDrift(result.driftBefore)}; now ${formatDrift(result.driftAfter)}.`,
+      })
+    } catch (err: any) {
+      console.error("[UART] Error syncing clock:", err)
+      toast({
+        title: "Clock Sync Failed",
+        description: err?.message || "Failed to set the device clock.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -307,13 +714,18 @@ export default function MedicalAlertDashboard() {
             <h1 className="text-4xl font-bold text-balance">Medical Alert Dashboard</h1>
           </div>
           <p className="text-muted-foreground text-pretty">Configure patient information and medication reminders</p>
-          <div className="mt-4">
+          <div className="mt-4 flex items-center justify-center gap-2">
             <Link href="/database">
               <Button variant="outline" size="sm">
                 <Database className="mr-2 h-4 w-4" />
                 View All Devices
               </Button>
             </Link>
+            <Button type="button" variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import from File
+            </Button>
+            <input ref={importInputRef} type="file" accept=".txt,text/plain" className="hidden" onChange={importFromFile} />
           </div>
         </div>
 
@@ -396,105 +808,49 @@ export default function MedicalAlertDashboard() {
               <CardDescription>Configure medication and reminder alerts</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {alerts.map((alert, index) => (
-                <div key={alert.id} className="rounded-lg border border-border bg-muted/30 p-4 space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-semibold text-sm">Alert {index + 1}</h4>
-                    <Button type="button" variant="ghost" size="sm" onClick={() => removeAlert(alert.id)}>
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor={`message-${alert.id}`}>Message *</Label>
-                    <Input
-                      id={`message-${alert.id}`}
-                      placeholder="Take medication / Reminder message"
-                      value={alert.message}
-                      onChange={(e) => updateAlert(alert.id, "message", e.target.value)}
-                      required
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor={`type-${alert.id}`}>Alert Type *</Label>
-                    <Select value={alert.type} onValueChange={(value) => updateAlert(alert.id, "type", value)}>
-                      <SelectTrigger id={`type-${alert.id}`}>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Reminder">Reminder</SelectItem>
-                        <SelectItem value="Medicine">Medicine</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-3">
-                    <Label>Days of Week *</Label>
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`everyday-${alert.id}`}
-                        checked={alert.isEveryday}
-                        onCheckedChange={(checked) => toggleEveryday(alert.id, checked as boolean)}
-                      />
-                      <label
-                        htmlFor={`everyday-${alert.id}`}
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        Everyday
-                      </label>
-                    </div>
-
-                    {!alert.isEveryday && (
-                      <div className="flex flex-wrap gap-2">
-                        {daysOfWeek.map((day) => (
-                          <div key={day.value} className="flex items-center">
-                            <Button
-                              type="button"
-                              variant={alert.selectedDays.includes(day.value) ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => toggleDay(alert.id, day.value)}
-                              className="w-14"
-                            >
-                              {day.label}
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-
-                    {alert.isEveryday && (
-                      <p className="text-xs text-muted-foreground">Alert will trigger every day of the week</p>
-                    )}
-                  </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="nearCollisionMinutes" className="text-sm text-muted-foreground">
+                  Warn when alerts are this many minutes apart or closer
+                </Label>
+                <Input
+                  id="nearCollisionMinutes"
+                  type="number"
+                  min="0"
+                  max="120"
+                  value={nearCollisionMinutes}
+                  onChange={(e) => setNearCollisionMinutes(e.target.value)}
+                  className="w-20"
+                />
+              </div>
 
-                  <div className="grid gap-4 grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor={`hour-${alert.id}`}>Hour (0-23) *</Label>
-                      <Input
-                        id={`hour-${alert.id}`}
-                        type="number"
-                        min="0"
-                        max="23"
-                        value={alert.hour}
-                        onChange={(e) => updateAlert(alert.id, "hour", e.target.value)}
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor={`minute-${alert.id}`}>Minute (0-59) *</Label>
-                      <Input
-                        id={`minute-${alert.id}`}
-                        type="number"
-                        min="0"
-                        max="59"
-                        value={alert.minute}
-                        onChange={(e) => updateAlert(alert.id, "minute", e.target.value)}
-                        required
-                      />
-                    </div>
-                  </div>
+              {refillsDue.length > 0 && (
+                <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 space-y-1">
+                  <p className="flex items-center gap-2 text-sm font-semibold text-amber-600 dark:text-amber-500">
+                    <PackageOpen className="h-4 w-4" />
+                    Refill Needed
+                  </p>
+                  <ul className="text-xs text-amber-600 dark:text-amber-500 space-y-1">
+                    {refillsDue.map((forecast) => (
+                      <li key={forecast.medication}>
+                        {forecast.medication}: {describeStockForecast(forecast)}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
+              )}
+
+              {alerts.map((alert, index) => (
+                <AlertEditor
+                  key={alert.id}
+                  alert={alert}
+                  index={index}
+                  charset={charset}
+                  extendedTypes={extendedAlertTypes}
+                  warnings={scheduleWarnings.filter((warning) => warning.alertIndexes.includes(index))}
+                  stockForecast={stockForecasts.find((forecast) => forecast.alertIndexes.includes(index))}
+                  onChange={(changes) => updateAlert(alert.id, changes)}
+                  onRemove={() => removeAlert(alert.id)}
+                />
               ))}
 
               <Button type="button" variant="outline" onClick={addAlert} className="w-full bg-transparent">
@@ -504,12 +860,42 @@ export default function MedicalAlertDashboard() {
             </CardContent>
           </Card>
 
+          {alerts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarRange className="h-5 w-5" />
+                  Weekly Timeline
+                </CardTitle>
+                <CardDescription>Every alert over the coming week; click a marker to edit its alert</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScheduleTimeline alerts={alerts} onSelectAlert={(index) => focusAlert(alerts[index].id)} />
+              </CardContent>
+            </Card>
+          )}
+
+          {alerts.some((alert) => alert.type === "Medicine") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Grid3x3 className="h-5 w-5" />
+                  Dispenser Compartments
+                </CardTitle>
+                <CardDescription>Load each medicine dose into the compartment the RXbot opens for it</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CompartmentGrid alerts={alerts} onChange={updateCompartments} />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Device Configuration</CardTitle>
-              <CardDescription>Assign device identifier</CardDescription>
+              <CardDescription>Assign device identifier and payload format</CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="deviceId">Device ID (1-100) *</Label>
                 <Input
@@ -523,19 +909,73 @@ export default function MedicalAlertDashboard() {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="protocolVersion">Payload Format</Label>
+                <Select value={protocolVersion} onValueChange={setProtocolVersion}>
+                  <SelectTrigger id="protocolVersion">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">v1 - one line per day (all firmware)</SelectItem>
+                    <SelectItem value="2">v2 - weekday bitmask (firmware v2 and later)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  This schedule uses {countDeviceSlots(alerts, Number.parseInt(protocolVersion))} device slots
+                  {capabilities && ` of ${capabilities.maxAlerts} available`}.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="charset">Display Character Set</Label>
+                <Select value={charset} onValueChange={(value) => setCharset(value as DeviceCharset)}>
+                  <SelectTrigger id="charset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ascii">ASCII - accents are transliterated</SelectItem>
+                    <SelectItem value="latin1">Latin-1 - Western European accents</SelectItem>
+                    <SelectItem value="utf8">UTF-8 - sent unchanged</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {capabilities
+                    ? `Detected from the connected device (${capabilities.charset}).`
+                    : "Set automatically when a device reports its charset on connect."}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alertTypes">Alert Categories</Label>
+                <Select
+                  value={extendedAlertTypes ? "extended" : "basic"}
+                  onValueChange={(value) => setExtendedAlertTypes(value === "extended")}
+                >
+                  <SelectTrigger id="alertTypes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="basic">Reminder/Medicine only (all firmware)</SelectItem>
+                    <SelectItem value="extended">All categories (firmware with extended alert types)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {capabilities
+                    ? `Detected from the connected device (${capabilities.alertTypeCodes ?? "r, m"}).`
+                    : "Without extended categories, new alert types are sent as Reminder or Medicine."}
+                </p>
+              </div>
             </CardContent>
           </Card>
 
           <Button type="submit" size="lg" className="w-full">
-            Process Alert Configuration
+            {editingId ? "Process and Update Saved Configuration" : "Process Alert Configuration"}
           </Button>
         </form>
 
         {formattedOutput && (
           <Card className="mt-6">
             <CardHeader>
-              <CardTitle>Export & Transmit</CardTitle>
-              <CardDescription>Save configuration to file or send to device</CardDescription>
+              <CardTitle>Export</CardTitle>
+              <CardDescription>Review the formatted output or save it to a file</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="rounded-lg bg-muted p-4">
@@ -543,53 +983,121 @@ export default function MedicalAlertDashboard() {
                 <pre className="text-xs whitespace-pre-wrap break-all font-mono">{formattedOutput}</pre>
               </div>
 
-              <div className="flex flex-col gap-3">
-                <Button type="button" onClick={saveToFile} variant="outline" className="w-full bg-transparent">
-                  <Download className="mr-2 h-4 w-4" />
-                  Save to Text File
-                </Button>
-
-                <div className="border-t pt-3">
-                  <Label className="text-sm font-medium mb-3 block">CP2102 UART Transmission</Label>
-                  <div className="flex flex-col gap-2">
-                    {!isConnected ? (
-                      <Button
-                        type="button"
-                        onClick={connectToDevice}
-                        variant="outline"
-                        className="w-full bg-transparent"
-                      >
-                        <Usb className="mr-2 h-4 w-4" />
-                        Detect & Connect to CP2102
-                      </Button>
-                    ) : (
-                      <>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
-                          <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-                          Connected to CP2102 device
-                        </div>
-                        <div className="grid grid-cols-2 gap-2">
-                          <Button type="button" onClick={sendToUART} className="w-full">
-                            <Usb className="mr-2 h-4 w-4" />
-                            Send to UART
-                          </Button>
-                          <Button
-                            type="button"
-                            onClick={disconnectFromDevice}
-                            variant="outline"
-                            className="w-full bg-transparent"
-                          >
-                            Disconnect
-                          </Button>
-                        </div>
-                      </>
-                    )}
-                  </div>
-                </div>
-              </div>
+              <Button type="button" onClick={saveToFile} variant="outline" className="w-full bg-transparent">
+                <Download className="mr-2 h-4 w-4" />
+                Save to Text File
+              </Button>
             </CardContent>
           </Card>
         )}
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>CP2102 UART Transmission</CardTitle>
+            <CardDescription>Send the configuration to a connected device or read back what it is running</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col gap-2">
+              {!isConnected ? (
+                <Button type="button" onClick={connectToDevice} variant="outline" className="w-full bg-transparent">
+                  <Usb className="mr-2 h-4 w-4" />
+                  Detect & Connect to CP2102
+                </Button>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+                    <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+                    Connected to CP2102 device
+                  </div>
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {capabilities
+                      ? `Firmware: ${describeCapabilities(capabilities)}`
+                      : "Firmware did not report its capabilities; limits are not checked."}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+                    <Button
+                      type="button"
+                      onClick={sendToUART}
+                      disabled={isBusy || !formattedOutput}
+                      className="w-full"
+                    >
+                      <Usb className="mr-2 h-4 w-4" />
+                      {isSending ? "Sending..." : "Send to UART"}
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={readFromDevice}
+                      disabled={isBusy}
+                      variant="outline"
+                      className="w-full bg-transparent"
+                    >
+                      <FileSearch className="mr-2 h-4 w-4" />
+                      {isReading ? "Reading..." : "Read from Device"}
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={syncClock}
+                      disabled={isBusy}
+                      variant="outline"
+                      className="w-full bg-transparent"
+                    >
+                      <Clock className="mr-2 h-4 w-4" />
+                      {isSyncing ? "Syncing..." : "Sync Clock"}
+                    </Button>
+                    <Button
+                      type="button"
+                      onClick={disconnectFromDevice}
+                      variant="outline"
+                      className="w-full bg-transparent"
+                    >
+                      Disconnect
+                    </Button>
+                  </div>
+                  {transferProgress !== null && (
+                    <div className="flex items-center gap-3">
+                      <Progress value={transferProgress} className="flex-1" />
+                      <span className="text-xs text-muted-foreground w-10 text-right">
+                        {Math.round(transferProgress)}%
+                      </span>
+                      <Button type="button" variant="outline" size="sm" onClick={() => transferAbortRef.current?.abort()}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                  {clockSync && (
+                    <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+                      <div>
+                        Clock drift before sync: <span className="font-medium">{formatDrift(clockSync.driftBefore)}</span>
+                      </div>
+                      <div>
+                        Clock drift after sync: <span className="font-medium">{formatDrift(clockSync.driftAfter)}</span>
+                      </div>
+                      {clockSync.weekdayMismatch && (
+                        <div className="text-destructive">Device weekday did not match its date before syncing.</div>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {serialLink && <SerialConsole link={serialLink} />}
+
+        {deviceConfig && (
+          <DeviceAudit
+            key={storedDevices.map((device) => device.id).join(",")}
+            deviceConfig={deviceConfig}
+            formConfig={getFormData()}
+            storedDevices={storedDevices}
+            onLoadIntoForm={() => {
+              loadIntoForm(deviceConfig)
+              setDeviceConfig(null)
+            }}
+            onDismiss={() => setDeviceConfig(null)}
+          />
+        )}
       </div>
     </div>
   )
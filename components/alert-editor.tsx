@@ -0,0 +1,706 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { AlertTriangle, CalendarIcon, Plus, Trash2, X } from "lucide-react"
+import { AlertTypeIcon } from "@/components/alert-type-badge"
+import { CharsetPreview } from "@/components/charset-preview"
+import { ALERT_TYPE_NAMES, ALERT_TYPES } from "@/lib/alert-types"
+import type { DeviceCharset } from "@/lib/charset"
+import {
+  DOSAGE_INSTRUCTIONS,
+  DOSAGE_ROUTES,
+  DOSAGE_UNITS,
+  createDosage,
+  renderDosageMessage,
+} from "@/lib/dosage"
+import {
+  DAY_LABELS,
+  describeAlertSchedule,
+  formatDate,
+  formatTime,
+  getAlertDays,
+  getAlertTimes,
+  parseDateString,
+  toDateString,
+  validateAlert,
+} from "@/lib/schedule"
+import type { ScheduleWarning } from "@/lib/schedule-lint"
+import { type StockForecast, describeStockForecast } from "@/lib/inventory"
+import type { AlertTime, Dosage, EditableAlert } from "@/lib/types"
+
+type AlertEditorProps = {
+  alert: EditableAlert
+  index: number
+  charset: DeviceCharset
+  // Whether the device receives category codes beyond r/m.
+  extendedTypes: boolean
+  // Schedule lint warnings involving this alert.
+  warnings?: ScheduleWarning[]
+  // Stock forecast of this alert's medication, if its stock has been counted.
+  stockForecast?: StockForecast
+  onChange: (changes: Partial<EditableAlert>) => void
+  onRemove: () => void
+}
+
+const daysOfWeek = DAY_LABELS.map((label, day) => ({ value: day.toString(), label }))
+
+type DateFieldProps = {
+  id: string
+  label: string
+  value?: string
+  placeholder: string
+  onChange: (value: string | undefined) => void
+}
+
+function DateField({ id, label, value, placeholder, onChange }: DateFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-1">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button id={id} type="button" variant="outline" className="flex-1 justify-start font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {value ? formatDate(value) : <span className="text-muted-foreground">{placeholder}</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={parseDateString(value)}
+              defaultMonth={parseDateString(value)}
+              onSelect={(date) => onChange(date ? toDateString(date) : undefined)}
+            />
+          </PopoverContent>
+        </Popover>
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(undefined)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+type DayTimeGridProps = {
+  alert: EditableAlert
+  onChange: (dayTimes: Record<string, AlertTime>) => void
+}
+
+// One column per active weekday; an empty cell falls back to the alert's main time.
+function DayTimeGrid({ alert, onChange }: DayTimeGridProps) {
+  const dayTimes = alert.dayTimes ?? {}
+
+  const setDayTime = (day: string, value: string) => {
+    const { [day]: _, ...rest } = dayTimes
+    const [hour, minute] = value.split(":")
+    onChange(value ? { ...rest, [day]: { hour, minute } } : rest)
+  }
+
+  return (
+    <div className="grid grid-cols-7 gap-1">
+      {getAlertDays(alert).map((day) => (
+        <div key={day} className="space-y-1 text-center">
+          <Label htmlFor={`day-time-${alert.id}-${day}`} className="text-xs">
+            {DAY_LABELS[Number.parseInt(day)]}
+          </Label>
+          <Input
+            id={`day-time-${alert.id}-${day}`}
+            type="time"
+            value={dayTimes[day] ? formatTime(dayTimes[day]) : ""}
+            onChange={(e) => setDayTime(day, e.target.value)}
+            className="px-1 text-xs"
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+type DosageFieldsProps = {
+  id: string
+  dosage: Dosage
+  onChange: (dosage: Dosage) => void
+}
+
+function DosageFields({ id, dosage, onChange }: DosageFieldsProps) {
+  const update = (changes: Partial<Dosage>) => onChange({ ...dosage, ...changes })
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`drug-${id}`}>Drug *</Label>
+          <Input
+            id={`drug-${id}`}
+            placeholder="Metformin"
+            value={dosage.drug}
+            onChange={(e) => update({ drug: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`strength-${id}`}>Strength</Label>
+          <Input
+            id={`strength-${id}`}
+            placeholder="500 mg"
+            value={dosage.strength}
+            onChange={(e) => update({ strength: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`amount-${id}`}>Dose *</Label>
+          <Input
+            id={`amount-${id}`}
+            type="number"
+            min="0"
+            step="0.5"
+            value={dosage.amount}
+            onChange={(e) => update({ amount: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`unit-${id}`}>Unit</Label>
+          <Select value={dosage.unit} onValueChange={(unit) => update({ unit })}>
+            <SelectTrigger id={`unit-${id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOSAGE_UNITS.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {unit}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`route-${id}`}>Route</Label>
+          <Select value={dosage.route} onValueChange={(route) => update({ route })}>
+            <SelectTrigger id={`route-${id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOSAGE_ROUTES.map((route) => (
+                <SelectItem key={route} value={route}>
+                  {route}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`instructions-${id}`}>Instructions</Label>
+        <Input
+          id={`instructions-${id}`}
+          list={`instructions-${id}-options`}
+          placeholder="with food"
+          value={dosage.instructions}
+          onChange={(e) => update({ instructions: e.target.value })}
+        />
+        <datalist id={`instructions-${id}-options`}>
+          {DOSAGE_INSTRUCTIONS.map((instruction) => (
+            <option key={instruction} value={instruction} />
+          ))}
+        </datalist>
+      </div>
+    </div>
+  )
+}
+
+export function AlertEditor({
+  alert,
+  index,
+  charset,
+  extendedTypes,
+  warnings = [],
+  stockForecast,
+  onChange,
+  onRemove,
+}: AlertEditorProps) {
+  const isInterval = alert.kind === "interval"
+  const isOnce = alert.kind === "once"
+  // An emptied End Hour keeps the window open for retyping; validateAlert flags it.
+  const hasEndTime = alert.endHour !== undefined
+  const problems = validateAlert(alert)
+
+  const toggleDay = (day: string) => {
+    const selectedDays = alert.selectedDays.includes(day)
+      ? alert.selectedDays.filter((d) => d !== day)
+      : [...alert.selectedDays, day]
+    const { [day]: _, ...dayTimes } = alert.dayTimes ?? {}
+    onChange({ selectedDays, ...(alert.dayTimes && { dayTimes }) })
+  }
+
+  const toggleEveryday = (checked: boolean) => {
+    onChange({ isEveryday: checked, selectedDays: checked ? [] : alert.selectedDays })
+  }
+
+  const setKind = (kind: string) => {
+    const noInterval = { intervalHours: undefined, endHour: undefined, endMinute: undefined }
+    if (kind === "interval") {
+      onChange({
+        kind: "interval",
+        intervalHours: alert.intervalHours || "6",
+        extraTimes: undefined,
+        dayTimes: undefined,
+        date: undefined,
+      })
+    } else if (kind === "once") {
+      onChange({ kind: "once", ...noInterval, dayTimes: undefined, startDate: undefined, endDate: undefined })
+    } else {
+      onChange({ kind: "fixed", ...noInterval, date: undefined })
+    }
+  }
+
+  const setType = (type: EditableAlert["type"]) => {
+    onChange(
+      type === "Medicine"
+        ? { type }
+        : { type, dosage: undefined, compartments: undefined, stockCount: undefined, stockCountedOn: undefined },
+    )
+  }
+
+  const setDosage = (dosage: Dosage | undefined) => {
+    onChange(dosage ? { dosage, message: renderDosageMessage(dosage) } : { dosage: undefined })
+  }
+
+  const extraTimes = alert.extraTimes ?? []
+
+  const updateExtraTime = (index: number, changes: Partial<AlertTime>) => {
+    onChange({ extraTimes: extraTimes.map((time, i) => (i === index ? { ...time, ...changes } : time)) })
+  }
+
+  const removeExtraTime = (index: number) => {
+    const remaining = extraTimes.filter((_, i) => i !== index)
+    onChange({ extraTimes: remaining.length > 0 ? remaining : undefined })
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm flex items-center gap-2">
+          <AlertTypeIcon type={alert.type} className="h-4 w-4" />
+          Alert {index + 1}
+        </h4>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`message-${alert.id}`}>Message *</Label>
+        <Input
+          id={`message-${alert.id}`}
+          placeholder="Take medication / Reminder message"
+          value={alert.message}
+          onChange={(e) => onChange({ message: e.target.value })}
+          readOnly={alert.dosage !== undefined}
+          required
+        />
+        {alert.dosage && <p className="text-xs text-muted-foreground">Generated from the dosage below.</p>}
+        <CharsetPreview text={alert.message} charset={charset} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`type-${alert.id}`}>Alert Type *</Label>
+        <Select value={alert.type} onValueChange={(value) => setType(value as EditableAlert["type"])}>
+          <SelectTrigger id={`type-${alert.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_TYPE_NAMES.map((type) => (
+              <SelectItem key={type} value={type}>
+                <AlertTypeIcon type={type} className="h-4 w-4" />
+                {ALERT_TYPES[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!extendedTypes && ALERT_TYPES[alert.type].code !== ALERT_TYPES[alert.type].fallbackCode && (
+          <p className="text-xs text-muted-foreground">
+            Sent as {ALERT_TYPES[alert.type].fallbackCode === "m" ? "Medicine" : "Reminder"} unless extended alert
+            types are enabled for the device.
+          </p>
+        )}
+      </div>
+
+      {alert.type === "Medicine" && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`dosage-${alert.id}`}
+              checked={alert.dosage !== undefined}
+              onCheckedChange={(checked) => setDosage(checked ? createDosage() : undefined)}
+            />
+            <label htmlFor={`dosage-${alert.id}`} className="text-sm font-medium leading-none">
+              Structured dosage
+            </label>
+          </div>
+          {alert.dosage && <DosageFields id={alert.id} dosage={alert.dosage} onChange={setDosage} />}
+
+          <div className="grid gap-4 grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`stock-${alert.id}`}>Stock on Hand</Label>
+              <Input
+                id={`stock-${alert.id}`}
+                type="number"
+                min="0"
+                placeholder="Not tracked"
+                value={alert.stockCount ?? ""}
+                onChange={(e) =>
+                  onChange({
+                    stockCount: e.target.value || undefined,
+                    stockCountedOn: e.target.value ? alert.stockCountedOn || toDateString(new Date()) : undefined,
+                  })
+                }
+              />
+            </div>
+            {alert.stockCount && (
+              <DateField
+                id={`stock-counted-${alert.id}`}
+                label="Counted On"
+                value={alert.stockCountedOn}
+                placeholder="Pick a date"
+                onChange={(stockCountedOn) => onChange({ stockCountedOn })}
+              />
+            )}
+          </div>
+          {stockForecast && (
+            <p
+              className={
+                stockForecast.status === "ok"
+                  ? "text-xs text-muted-foreground"
+                  : "text-xs text-amber-600 dark:text-amber-500"
+              }
+            >
+              {stockForecast.medication}: {describeStockForecast(stockForecast)}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`kind-${alert.id}`}>Schedule</Label>
+        <Select value={alert.kind ?? "fixed"} onValueChange={setKind}>
+          <SelectTrigger id={`kind-${alert.id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="fixed">At set times of day</SelectItem>
+            <SelectItem value="interval">Every N hours</SelectItem>
+            <SelectItem value="once">Once, on a specific date</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isOnce ? (
+        <DateField
+          id={`date-${alert.id}`}
+          label="Date *"
+          value={alert.date}
+          placeholder="Pick a date"
+          onChange={(date) => onChange({ date })}
+        />
+      ) : (
+        <div className="space-y-3">
+          <Label>Days of Week *</Label>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`everyday-${alert.id}`}
+              checked={alert.isEveryday}
+              onCheckedChange={(checked) => toggleEveryday(checked as boolean)}
+            />
+            <label
+              htmlFor={`everyday-${alert.id}`}
+              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              Everyday
+            </label>
+          </div>
+
+          {!alert.isEveryday && (
+            <div className="flex flex-wrap gap-2">
+              {daysOfWeek.map((day) => (
+                <div key={day.value} className="flex items-center">
+                  <Button
+                    type="button"
+                    variant={alert.selectedDays.includes(day.value) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleDay(day.value)}
+                    className="w-14"
+                  >
+                    {day.label}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {alert.isEveryday && <p className="text-xs text-muted-foreground">Alert will trigger every day of the week</p>}
+        </div>
+      )}
+
+      <div className="grid gap-4 grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`hour-${alert.id}`}>{isInterval ? "Start Hour (0-23) *" : "Hour (0-23) *"}</Label>
+          <Input
+            id={`hour-${alert.id}`}
+            type="number"
+            min="0"
+            max="23"
+            value={alert.hour}
+            onChange={(e) => onChange({ hour: e.target.value })}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`minute-${alert.id}`}>{isInterval ? "Start Minute (0-59) *" : "Minute (0-59) *"}</Label>
+          <Input
+            id={`minute-${alert.id}`}
+            type="number"
+            min="0"
+            max="59"
+            value={alert.minute}
+            onChange={(e) => onChange({ minute: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+
+      {!isInterval && (
+        <div className="space-y-3">
+          {extraTimes.map((time, timeIndex) => (
+            <div key={timeIndex} className="flex items-end gap-2">
+              <div className="grid flex-1 gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`extra-hour-${alert.id}-${timeIndex}`}>Time {timeIndex + 2} Hour</Label>
+                  <Input
+                    id={`extra-hour-${alert.id}-${timeIndex}`}
+                    type="number"
+                    min="0"
+                    max="23"
+                    value={time.hour}
+                    onChange={(e) => updateExtraTime(timeIndex, { hour: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`extra-minute-${alert.id}-${timeIndex}`}>Time {timeIndex + 2} Minute</Label>
+                  <Input
+                    id={`extra-minute-${alert.id}-${timeIndex}`}
+                    type="number"
+                    min="0"
+                    max="59"
+                    value={time.minute}
+                    onChange={(e) => updateExtraTime(timeIndex, { minute: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeExtraTime(timeIndex)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ extraTimes: [...extraTimes, { hour: "", minute: "00" }] })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Another Time
+          </Button>
+
+          {!isOnce && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`day-times-${alert.id}`}
+                checked={alert.dayTimes !== undefined}
+                onCheckedChange={(checked) => onChange({ dayTimes: checked ? {} : undefined })}
+              />
+              <label htmlFor={`day-times-${alert.id}`} className="text-sm font-medium leading-none">
+                Different time on some days
+              </label>
+            </div>
+          )}
+
+          {alert.dayTimes !== undefined && (
+            <div className="space-y-2">
+              <DayTimeGrid alert={alert} onChange={(dayTimes) => onChange({ dayTimes })} />
+              <p className="text-xs text-muted-foreground">
+                Leave a day empty to use {formatTime(alert)} on that day.
+              </p>
+            </div>
+          )}
+
+          {(extraTimes.length > 0 || alert.dayTimes !== undefined) && problems.length === 0 && (
+            <p className="text-xs text-muted-foreground">Fires at {describeAlertSchedule(alert)}</p>
+          )}
+        </div>
+      )}
+
+      {isInterval && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={`interval-${alert.id}`}>Repeat Every (hours) *</Label>
+            <Input
+              id={`interval-${alert.id}`}
+              type="number"
+              min="1"
+              max="12"
+              value={alert.intervalHours ?? ""}
+              onChange={(e) => onChange({ intervalHours: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`window-${alert.id}`}
+              checked={hasEndTime}
+              onCheckedChange={(checked) =>
+                onChange(checked ? { endHour: "22", endMinute: "00" } : { endHour: undefined, endMinute: undefined })
+              }
+            />
+            <label htmlFor={`window-${alert.id}`} className="text-sm font-medium leading-none">
+              Only while awake (stop at an end time)
+            </label>
+          </div>
+
+          {hasEndTime && (
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor={`end-hour-${alert.id}`}>End Hour (0-23)</Label>
+                <Input
+                  id={`end-hour-${alert.id}`}
+                  type="number"
+                  min="0"
+                  max="23"
+                  value={alert.endHour}
+                  onChange={(e) => onChange({ endHour: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`end-minute-${alert.id}`}>End Minute (0-59)</Label>
+                <Input
+                  id={`end-minute-${alert.id}`}
+                  type="number"
+                  min="0"
+                  max="59"
+                  value={alert.endMinute ?? ""}
+                  onChange={(e) => onChange({ endMinute: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          {problems.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Fires at {getAlertTimes(alert).map(formatTime).join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!isOnce && (
+        <div className="space-y-2">
+          <div className="grid gap-4 grid-cols-2">
+            <DateField
+              id={`start-date-${alert.id}`}
+              label="Course Starts"
+              value={alert.startDate}
+              placeholder="Immediately"
+              onChange={(startDate) => onChange({ startDate })}
+            />
+            <DateField
+              id={`end-date-${alert.id}`}
+              label="Course Ends"
+              value={alert.endDate}
+              placeholder="Never"
+              onChange={(endDate) => onChange({ endDate })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Optional. The device stops firing this alert after the end date, e.g. at the end of an antibiotic course.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="grid gap-4 grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor={`snooze-${alert.id}`}>Snooze (min)</Label>
+            <Input
+              id={`snooze-${alert.id}`}
+              type="number"
+              min="1"
+              max="60"
+              placeholder="Off"
+              value={alert.snoozeMinutes ?? ""}
+              onChange={(e) => onChange({ snoozeMinutes: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`repeats-${alert.id}`}>Max Repeats</Label>
+            <Input
+              id={`repeats-${alert.id}`}
+              type="number"
+              min="1"
+              max="10"
+              placeholder="Off"
+              value={alert.maxRepeats ?? ""}
+              onChange={(e) => onChange({ maxRepeats: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`escalate-${alert.id}`}>Escalate (min)</Label>
+            <Input
+              id={`escalate-${alert.id}`}
+              type="number"
+              min="1"
+              max="240"
+              placeholder="Off"
+              value={alert.escalateAfterMinutes ?? ""}
+              onChange={(e) => onChange({ escalateAfterMinutes: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Optional. While unacknowledged the device fires again every snooze interval, up to the maximum repeats, and
+          triggers the emergency contact flow after the escalation time.
+        </p>
+      </div>
+
+      {problems.length > 0 && alert.message && (
+        <ul className="text-xs text-destructive space-y-1">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="text-xs text-amber-600 dark:text-amber-500 space-y-1">
+          {warnings.map((warning) => (
+            <li key={warning.message} className="flex items-start gap-1">
+              <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
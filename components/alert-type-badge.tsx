@@ -0,0 +1,62 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Bell, CalendarCheck, Dumbbell, GlassWater, HeartPulse, type LucideIcon, Pill } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { ALERT_TYPES } from "@/lib/alert-types"
+import type { AlertType } from "@/lib/types"
+
+type AlertTypeStyle = {
+  icon: LucideIcon
+  badgeClassName: string
+  // Background used for the alert's markers on the schedule timeline.
+  markerClassName: string
+}
+
+export const ALERT_TYPE_STYLES: Record<AlertType, AlertTypeStyle> = {
+  Reminder: {
+    icon: Bell,
+    badgeClassName: "border-transparent bg-secondary text-secondary-foreground",
+    markerClassName: "bg-amber-500",
+  },
+  Medicine: {
+    icon: Pill,
+    badgeClassName: "border-transparent bg-primary text-primary-foreground",
+    markerClassName: "bg-primary",
+  },
+  Appointment: {
+    icon: CalendarCheck,
+    badgeClassName: "border-transparent bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-200",
+    markerClassName: "bg-violet-500",
+  },
+  Hydration: {
+    icon: GlassWater,
+    badgeClassName: "border-transparent bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200",
+    markerClassName: "bg-sky-500",
+  },
+  Vitals: {
+    icon: HeartPulse,
+    badgeClassName: "border-transparent bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-200",
+    markerClassName: "bg-rose-500",
+  },
+  Exercise: {
+    icon: Dumbbell,
+    badgeClassName: "border-transparent bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+    markerClassName: "bg-emerald-500",
+  },
+}
+
+export function AlertTypeIcon({ type, className }: { type: AlertType; className?: string }) {
+  const Icon = ALERT_TYPE_STYLES[type].icon
+  return <Icon className={className} />
+}
+
+export function AlertTypeBadge({ type, className }: { type: AlertType; className?: string }) {
+  const style = ALERT_TYPE_STYLES[type]
+  return (
+    <Badge variant="outline" className={cn(style.badgeClassName, className)}>
+      <style.icon />
+      {ALERT_TYPES[type].label}
+    </Badge>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { type DeviceCharset, transliterate } from "@/lib/charset"
+
+type CharsetPreviewProps = {
+  text: string
+  charset: DeviceCharset
+}
+
+// Shows exactly what the device display will render when it differs from the input.
+export function CharsetPreview({ text, charset }: CharsetPreviewProps) {
+  const preview = transliterate(text, charset)
+  if (preview.text === text) return null
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      Device display: <span className="font-mono text-foreground">{preview.text}</span>
+      {preview.unsupported.length > 0 && (
+        <span className="text-destructive"> · cannot display {preview.unsupported.join(" ")}</span>
+      )}
+    </p>
+  )
+}
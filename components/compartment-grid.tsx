@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Wand2, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  COMPARTMENT_COUNT,
+  COMPARTMENTS_PER_DAY,
+  type MedicineOccurrence,
+  autoAssignCompartments,
+  describeOccurrence,
+  getMedicineOccurrences,
+  validateCompartments,
+} from "@/lib/compartments"
+import { DAY_LABELS } from "@/lib/schedule"
+import type { Alert } from "@/lib/types"
+
+type CompartmentGridProps = {
+  alerts: Alert[]
+  // Called with the new compartments map of each changed alert, by alert index.
+  onChange: (compartments: Map<number, Record<string, string> | undefined>) => void
+}
+
+const getMedicineName = (alert: Alert) => alert.dosage?.drug || alert.message || "Untitled medicine"
+
+const occurrenceId = (occurrence: MedicineOccurrence) => `${occurrence.alertIndex}|${occurrence.key}`
+
+// Pick a dose from the list, then click a compartment to load it there.
+// Clicking a filled compartment with nothing picked picks its dose.
+export function CompartmentGrid({ alerts, onChange }: CompartmentGridProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const occurrences = getMedicineOccurrences(alerts)
+  const problems = validateCompartments(alerts)
+  const selected = occurrences.find((occurrence) => occurrenceId(occurrence) === selectedId)
+
+  const assign = (occurrence: MedicineOccurrence, compartment: number | undefined) => {
+    const { [occurrence.key]: _, ...rest } = alerts[occurrence.alertIndex].compartments ?? {}
+    const compartments = compartment ? { ...rest, [occurrence.key]: compartment.toString() } : rest
+    onChange(new Map([[occurrence.alertIndex, Object.keys(compartments).length > 0 ? compartments : undefined]]))
+  }
+
+  const clickCompartment = (compartment: number, occupants: MedicineOccurrence[]) => {
+    if (selected) {
+      assign(selected, compartment)
+      setSelectedId(null)
+    } else if (occupants.length > 0) {
+      setSelectedId(occurrenceId(occupants[0]))
+    }
+  }
+
+  const clearAll = () => {
+    const indexes = new Set(occurrences.map((occurrence) => occurrence.alertIndex))
+    onChange(new Map(Array.from(indexes, (index) => [index, undefined])))
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {occurrences.map((occurrence) => (
+          <Button
+            key={occurrenceId(occurrence)}
+            type="button"
+            size="sm"
+            variant={occurrenceId(occurrence) === selectedId ? "default" : "outline"}
+            onClick={() => setSelectedId(occurrenceId(occurrence) === selectedId ? null : occurrenceId(occurrence))}
+            className="h-auto py-1 text-xs"
+          >
+            {getMedicineName(alerts[occurrence.alertIndex])} · {describeOccurrence(occurrence)}
+            <span className={cn("font-mono", !occurrence.compartment && "text-muted-foreground")}>
+              {occurrence.compartment ? `#${occurrence.compartment}` : "—"}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-1" style={{ gridTemplateColumns: `2.5rem repeat(${COMPARTMENTS_PER_DAY}, 1fr)` }}>
+        {DAY_LABELS.map((label, row) => (
+          <div key={label} className="contents">
+            <span className="self-center text-xs text-muted-foreground">{label}</span>
+            {Array.from({ length: COMPARTMENTS_PER_DAY }, (_, column) => {
+              const compartment = row * COMPARTMENTS_PER_DAY + column + 1
+              const occupants = occurrences.filter((occurrence) => occurrence.compartment === compartment)
+              return (
+                <button
+                  key={compartment}
+                  type="button"
+                  onClick={() => clickCompartment(compartment, occupants)}
+                  className={cn(
+                    "flex h-14 flex-col items-start rounded-md border p-1 text-left text-[10px] leading-tight hover:ring-2 hover:ring-ring",
+                    occupants.length === 0 && "border-dashed text-muted-foreground",
+                    occupants.length === 1 && "border-primary bg-primary/10",
+                    occupants.length > 1 && "border-destructive bg-destructive/10",
+                    selected?.compartment === compartment && "ring-2 ring-primary",
+                  )}
+                >
+                  <span className="font-mono font-semibold">{compartment}</span>
+                  {occupants.map((occupant) => (
+                    <span key={occurrenceId(occupant)} className="w-full truncate">
+                      {getMedicineName(alerts[occupant.alertIndex])} {describeOccurrence(occupant)}
+                    </span>
+                  ))}
+                </button>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange(autoAssignCompartments(alerts))}>
+          <Wand2 className="mr-2 h-4 w-4" />
+          Fill Empty Compartments
+        </Button>
+        {selected?.compartment && (
+          <Button type="button" variant="outline" size="sm" onClick={() => assign(selected, undefined)}>
+            <X className="mr-2 h-4 w-4" />
+            Unassign {describeOccurrence(selected)}
+          </Button>
+        )}
+        <Button type="button" variant="ghost" size="sm" onClick={clearAll}>
+          Clear All
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          {occurrences.filter((occurrence) => occurrence.compartment).length} of {occurrences.length} doses in{" "}
+          {COMPARTMENT_COUNT} compartments
+        </span>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-xs text-destructive space-y-1">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle2, ClipboardCheck, Upload, X } from "lucide-react"
+import { type ConfigDifference, diffConfigurations } from "@/lib/config-diff"
+import { ALERT_TYPES, getTypeByCode } from "@/lib/alert-types"
+import { describeAlertCourse, formatDay } from "@/lib/schedule"
+import type { FormData, StoredDevice } from "@/lib/types"
+
+type DeviceAuditProps = {
+  deviceConfig: FormData
+  formConfig: FormData
+  storedDevices: StoredDevice[]
+  onLoadIntoForm: () => void
+  onDismiss: () => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Contact name",
+  phone: "Phone",
+  email: "Email",
+  medicalInfo: "Medical notes",
+  deviceId: "Device ID",
+}
+
+const describeDifference = (difference: ConfigDifference) => {
+  if (difference.kind === "field") {
+    return `${FIELD_LABELS[difference.field]}: expected "${difference.expected}", device has "${difference.actual}"`
+  }
+
+  const { alert } = difference
+  const course = describeAlertCourse(alert)
+  const compartment = alert.compartment ? `, compartment ${alert.compartment}` : ""
+  const when = `${formatDay(alert.day)} ${alert.hour}:${alert.minute}${course ? ` (${course})` : ""}${compartment}`
+  const kind = ALERT_TYPES[getTypeByCode(alert.type)].label
+  return difference.change === "missing"
+    ? `Missing on device: ${kind} "${alert.message}" at ${when}`
+    : `Only on device: ${kind} "${alert.message}" at ${when}`
+}
+
+export function DeviceAudit({ deviceConfig, formConfig, storedDevices, onLoadIntoForm, onDismiss }: DeviceAuditProps) {
+  const matchingDevices = storedDevices.filter((device) => device.deviceId === deviceConfig.deviceId)
+  const [compareTo, setCompareTo] = useState(matchingDevices[0]?.id ?? "form")
+
+  const reference = matchingDevices.find((device) => device.id === compareTo) ?? formConfig
+  const differences = diffConfigurations(reference, deviceConfig)
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Device Audit
+              {differences.length === 0 ? (
+                <Badge variant="secondary">In sync</Badge>
+              ) : (
+                <Badge variant="destructive">{differences.length} differences</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Configuration read from Device {deviceConfig.deviceId} ({deviceConfig.alerts.length} alerts)
+            </CardDescription>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="audit-compare">Compare against</Label>
+          <Select value={compareTo} onValueChange={setCompareTo}>
+            <SelectTrigger id="audit-compare">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="form">Current form</SelectItem>
+              {matchingDevices.map((device) => (
+                <SelectItem key={device.id} value={device.id}>
+                  Saved {new Date(device.timestamp).toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {differences.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+            The device is running exactly this configuration.
+          </div>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {differences.map((difference, index) => (
+              <li key={index} className="rounded-md border border-border bg-muted/30 px-3 py-2 break-words">
+                {describeDifference(difference)}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button type="button" variant="outline" onClick={onLoadIntoForm} className="w-full bg-transparent">
+          <Upload className="mr-2 h-4 w-4" />
+          Load Device Configuration into Form
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { formatDose } from "@/lib/dosage"
+import { describeAlertCourse, describeAlertSchedule, isAlertExpired } from "@/lib/schedule"
+import type { Alert } from "@/lib/types"
+
+type MedicationTableProps = {
+  alerts: Alert[]
+}
+
+// Medicine alerts as a medication list. Alerts without structured dosage
+// still get a row, with their message standing in for the drug.
+export function MedicationTable({ alerts }: MedicationTableProps) {
+  const medicines = alerts.filter((alert) => alert.type === "Medicine")
+
+  if (medicines.length === 0) {
+    return <p className="text-sm text-muted-foreground">No medicine alerts.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Drug</TableHead>
+          <TableHead>Strength</TableHead>
+          <TableHead>Dose</TableHead>
+          <TableHead>Route</TableHead>
+          <TableHead>Instructions</TableHead>
+          <TableHead>Schedule</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {medicines.map((alert, index) => {
+          const { dosage } = alert
+          const course = describeAlertCourse(alert)
+          return (
+            <TableRow key={index} className={isAlertExpired(alert) ? "opacity-50" : undefined}>
+              <TableCell className="font-medium">{dosage?.drug || alert.message}</TableCell>
+              <TableCell>{dosage?.strength || "—"}</TableCell>
+              <TableCell>{dosage ? formatDose(dosage) : "—"}</TableCell>
+              <TableCell>{dosage?.route || "—"}</TableCell>
+              <TableCell>{dosage?.instructions || "—"}</TableCell>
+              <TableCell className="whitespace-normal">
+                {describeAlertSchedule(alert)}
+                {course && <div className="text-xs text-muted-foreground">{course}</div>}
+                {isAlertExpired(alert) && (
+                  <Badge variant="destructive" className="text-xs">
+                    Expired
+                  </Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          )
+        })}
+      </TableBody>
+    </Table>
+  )
+}
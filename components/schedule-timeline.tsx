@@ -0,0 +1,146 @@
+"use client"
+
+import { ALERT_TYPE_STYLES } from "@/components/alert-type-badge"
+import { cn } from "@/lib/utils"
+import { ALERT_TYPE_NAMES, ALERT_TYPES } from "@/lib/alert-types"
+import {
+  DAY_LABELS,
+  formatDate,
+  formatTime,
+  getAlertOccurrences,
+  parseDateString,
+  toDateString,
+  validateAlert,
+} from "@/lib/schedule"
+import type { Alert, AlertTime } from "@/lib/types"
+
+type ScheduleTimelineProps = {
+  alerts: Alert[]
+  // Called with the index of the alert whose marker was clicked.
+  onSelectAlert?: (index: number) => void
+}
+
+type TimelineEntry = {
+  alertIndex: number
+  alert: Alert
+  weekday: number
+  time: AlertTime
+  // Set for one-off alerts, which appear only in the week they fall in.
+  date?: string
+}
+
+const HOUR_MARKS = [0, 6, 12, 18, 24]
+
+// Date of the next occurrence of a weekday, counting today.
+const getNextDate = (today: Date, weekday: number) =>
+  toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + ((weekday - today.getDay() + 7) % 7)))
+
+// Every slot the alerts fire in over the coming week. Alerts that are still
+// incomplete in the editor are left out rather than plotted at a bogus time,
+// as are weekly slots whose date this week falls outside the alert's course.
+function getTimelineEntries(alerts: Alert[], today: Date): TimelineEntry[] {
+  const weekStart = toDateString(today)
+  const weekEnd = toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 7))
+
+  return alerts.flatMap((alert, alertIndex) => {
+    if (validateAlert(alert).length > 0) return []
+
+    return getAlertOccurrences(alert).flatMap(({ time, days }) =>
+      days.flatMap((day) => {
+        if (alert.kind !== "once") {
+          const weekday = Number.parseInt(day)
+          const date = getNextDate(today, weekday)
+          if ((alert.startDate && date < alert.startDate) || (alert.endDate && date > alert.endDate)) return []
+          return [{ alertIndex, alert, weekday, time }]
+        }
+
+        const date = parseDateString(day)
+        if (!date || day < weekStart || day >= weekEnd) return []
+        return [{ alertIndex, alert, weekday: date.getDay(), time, date: day }]
+      }),
+    )
+  })
+}
+
+const describeEntry = (entry: TimelineEntry) => {
+  const when = `${entry.date ? `${formatDate(entry.date)} ` : ""}${formatTime(entry.time)}`
+  return `${when} · ${ALERT_TYPES[entry.alert.type].label}: ${entry.alert.message}`
+}
+
+export function ScheduleTimeline({ alerts, onSelectAlert }: ScheduleTimelineProps) {
+  const today = new Date()
+  const entries = getTimelineEntries(alerts, today)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="w-10" />
+        <div className="relative h-4 flex-1 text-[10px] text-muted-foreground">
+          {HOUR_MARKS.map((hour) => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+              style={{ left: `${(hour / 24) * 100}%` }}
+            >
+              {hour.toString().padStart(2, "0")}:00
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {DAY_LABELS.map((label, weekday) => (
+        <div key={label} className="flex items-center gap-2">
+          <span
+            className={cn("w-10 text-xs", weekday === today.getDay() ? "font-semibold" : "text-muted-foreground")}
+          >
+            {label}
+          </span>
+          <div className="relative h-7 flex-1 rounded bg-muted">
+            {HOUR_MARKS.slice(1, -1).map((hour) => (
+              <div
+                key={hour}
+                className="absolute top-0 bottom-0 w-px bg-border"
+                style={{ left: `${(hour / 24) * 100}%` }}
+              />
+            ))}
+            {entries
+              .filter((entry) => entry.weekday === weekday)
+              .map((entry, index) => {
+                const minutes = Number.parseInt(entry.time.hour) * 60 + Number.parseInt(entry.time.minute)
+                return (
+                  <button
+                    key={index}
+                    type="button"
+                    title={describeEntry(entry)}
+                    aria-label={describeEntry(entry)}
+                    disabled={!onSelectAlert}
+                    onClick={() => onSelectAlert?.(entry.alertIndex)}
+                    className={cn(
+                      "absolute top-1 bottom-1 w-1.5 -translate-x-1/2 rounded-sm enabled:hover:ring-2 enabled:hover:ring-ring",
+                      ALERT_TYPE_STYLES[entry.alert.type].markerClassName,
+                      entry.date && "ring-1 ring-foreground",
+                    )}
+                    style={{ left: `${(minutes / (24 * 60)) * 100}%` }}
+                  />
+                )
+              })}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-4 pt-1 text-xs text-muted-foreground">
+        {ALERT_TYPE_NAMES.filter((type) => alerts.some((alert) => alert.type === type)).map((type) => (
+          <span key={type} className="flex items-center gap-1">
+            <span className={cn("inline-block h-3 w-1.5 rounded-sm", ALERT_TYPE_STYLES[type].markerClassName)} />
+            {ALERT_TYPES[type].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-1.5 rounded-sm bg-muted-foreground ring-1 ring-foreground" />
+          One-off this week
+        </span>
+        {entries.length === 0 && <span>No complete alerts fire in the coming week.</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Download, Eraser, Send, Terminal } from "lucide-react"
+import type { SerialLink } from "@/lib/serial-link"
+
+type ConsoleLine = {
+  timestamp: Date
+  // "error" lines are written by the console itself, e.g. when a command fails to send.
+  direction: "rx" | "tx" | "error"
+  text: string
+}
+
+type SerialConsoleProps = {
+  link: SerialLink
+}
+
+const MAX_LINES = 2000
+
+const formatTimestamp = (date: Date) =>
+  `${date.toLocaleTimeString([], { hour12: false })}.${date.getMilliseconds().toString().padStart(3, "0")}`
+
+const DIRECTION_MARKS: Record<ConsoleLine["direction"], string> = { rx: "<", tx: ">", error: "!" }
+
+const formatLine = (line: ConsoleLine) =>
+  `[${formatTimestamp(line.timestamp)}] ${DIRECTION_MARKS[line.direction]} ${line.text}`
+
+export function SerialConsole({ link }: SerialConsoleProps) {
+  const [lines, setLines] = useState<ConsoleLine[]>([])
+  const [command, setCommand] = useState("")
+  const startedAt = useRef(new Date())
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const appendLine = (direction: ConsoleLine["direction"], text: string) => {
+    setLines((previous) => [...previous, { timestamp: new Date(), direction, text }].slice(-MAX_LINES))
+  }
+
+  useEffect(() => {
+    const append = (direction: ConsoleLine["direction"]) => (text: string) => appendLine(direction, text)
+
+    const unsubscribeRead = link.onLine(append("rx"))
+    const unsubscribeWrite = link.onWrite(append("tx"))
+    return () => {
+      unsubscribeRead()
+      unsubscribeWrite()
+    }
+  }, [link])
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight })
+  }, [lines])
+
+  const sendCommand = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!command) return
+
+    try {
+      await link.write(command + "\n")
+      setCommand("")
+    } catch (error: any) {
+      console.error("[UART] Error sending command:", error)
+      appendLine("error", `Failed to send command: ${error?.message || "the serial port is not writable"}`)
+    }
+  }
+
+  const exportTranscript = () => {
+    const header = `RXbot serial session started ${startedAt.current.toISOString()}\n`
+    const blob = new Blob([header + lines.map(formatLine).join("\n") + "\n"], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `serial-session-${startedAt.current.toISOString().replace(/[:.]/g, "-")}.log`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Terminal className="h-5 w-5" />
+              Serial Console
+            </CardTitle>
+            <CardDescription>Live output from the device and raw command input</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={exportTranscript} disabled={lines.length === 0}>
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setLines([])}>
+              <Eraser className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div ref={scrollRef} className="h-64 overflow-y-auto rounded-lg bg-muted p-3 font-mono text-xs">
+          {lines.length === 0 ? (
+            <p className="text-muted-foreground">Waiting for device output...</p>
+          ) : (
+            lines.map((line, index) => (
+              <div key={index} className="whitespace-pre-wrap break-all">
+                <span className="text-muted-foreground">[{formatTimestamp(line.timestamp)}]</span>{" "}
+                <span
+                  className={
+                    line.direction === "tx" ? "text-primary" : line.direction === "error" ? "text-destructive" : undefined
+                  }
+                >
+                  {DIRECTION_MARKS[line.direction]} {line.text}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+        <form onSubmit={sendCommand} className="flex gap-2">
+          <Input
+            placeholder="Type a command, e.g. @CAPS"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!command}>
+            <Send className="mr-2 h-4 w-4" />
+            Send
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
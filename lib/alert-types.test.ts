@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest"
+import { getTypeByCode, getTypeCode, isExtendedTypeCode } from "@/lib/alert-types"
+
+describe("getTypeCode", () => {
+  it("sends each category's own code only when extended types are on", () => {
+    expect(getTypeCode("Hydration", true)).toBe("h")
+    expect(getTypeCode("Hydration", false)).toBe("r")
+    expect(getTypeCode("Vitals", false)).toBe("m")
+  })
+})
+
+describe("getTypeByCode", () => {
+  it("reads codes back, treating unknown ones as reminders", () => {
+    expect(getTypeByCode("e")).toBe("Exercise")
+    expect(getTypeByCode("z")).toBe("Reminder")
+    expect(isExtendedTypeCode("a")).toBe(true)
+    expect(isExtendedTypeCode("m")).toBe(false)
+  })
+})
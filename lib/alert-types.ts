@@ -0,0 +1,35 @@
+import type { AlertType } from "@/lib/types"
+
+export type AlertTypeInfo = {
+  label: string
+  // Single-letter code sent in the alert line's type field.
+  code: string
+  // Code sent instead to firmware that only understands r and m.
+  fallbackCode: "r" | "m"
+}
+
+// Vital-sign checks fall back to "m" so they keep the medicine chime and
+// follow-up on older firmware; every other new category reads as a reminder.
+export const ALERT_TYPES: Record<AlertType, AlertTypeInfo> = {
+  Reminder: { label: "Reminder", code: "r", fallbackCode: "r" },
+  Medicine: { label: "Medicine", code: "m", fallbackCode: "m" },
+  Appointment: { label: "Appointment", code: "a", fallbackCode: "r" },
+  Hydration: { label: "Hydration", code: "h", fallbackCode: "r" },
+  Vitals: { label: "Vital-sign check", code: "v", fallbackCode: "m" },
+  Exercise: { label: "Exercise", code: "e", fallbackCode: "r" },
+}
+
+export const ALERT_TYPE_NAMES = Object.keys(ALERT_TYPES) as AlertType[]
+
+export function getTypeCode(type: AlertType, extended: boolean): string {
+  const info = ALERT_TYPES[type] ?? ALERT_TYPES.Reminder
+  return extended ? info.code : info.fallbackCode
+}
+
+// Unknown codes read back as reminders rather than failing the whole frame.
+export function getTypeByCode(code: string): AlertType {
+  return ALERT_TYPE_NAMES.find((type) => ALERT_TYPES[type].code === code) ?? "Reminder"
+}
+
+// True for codes only firmware with extended categories understands.
+export const isExtendedTypeCode = (code: string) => code !== "r" && code !== "m"
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { normalizeCharset, transliterate } from "@/lib/charset"
+
+describe("normalizeCharset", () => {
+  it("accepts common spellings and falls back to utf8", () => {
+    expect(normalizeCharset("US-ASCII")).toBe("ascii")
+    expect(normalizeCharset("ISO-8859-1")).toBe("latin1")
+    expect(normalizeCharset("latin_1")).toBe("latin1")
+    expect(normalizeCharset(undefined)).toBe("utf8")
+    expect(normalizeCharset("shift-jis")).toBe("utf8")
+  })
+})
+
+describe("transliterate", () => {
+  it("leaves utf8 text unchanged", () => {
+    expect(transliterate("Café ☕", "utf8")).toEqual({ text: "Café ☕", unsupported: [] })
+  })
+
+  it("strips diacritics and maps punctuation for ascii", () => {
+    expect(transliterate("Crème brûlée – “now”", "ascii")).toEqual({ text: 'Creme brulee - "now"', unsupported: [] })
+  })
+
+  it("keeps latin1 letters", () => {
+    expect(transliterate("Café", "latin1").text).toBe("Café")
+  })
+
+  it("keeps line breaks", () => {
+    expect(transliterate("a\nb", "ascii").text).toBe("a\nb")
+  })
+
+  it("replaces characters with no equivalent and lists them once", () => {
+    expect(transliterate("日本 ok 日", "ascii")).toEqual({ text: "?? ok ?", unsupported: ["日", "本"] })
+  })
+})
@@ -0,0 +1,83 @@
+// Display charsets reported by RXbot firmware. The wire itself is always UTF-8;
+// the charset says which characters the LCD can actually render, so text is
+// transliterated into it before framing.
+
+export const DEVICE_CHARSETS = ["ascii", "latin1", "utf8"] as const
+
+export type DeviceCharset = (typeof DEVICE_CHARSETS)[number]
+
+export type TransliterationResult = {
+  text: string
+  // Characters with no displayable equivalent, replaced by "?" in text.
+  unsupported: string[]
+}
+
+// Characters that do not decompose into a base letter plus combining marks.
+const REPLACEMENTS: Record<string, string> = {
+  "đ": "d",
+  "Đ": "D",
+  "ß": "ss",
+  "æ": "ae",
+  "Æ": "AE",
+  "ø": "o",
+  "Ø": "O",
+  "œ": "oe",
+  "Œ": "OE",
+  "ł": "l",
+  "Ł": "L",
+  "ð": "d",
+  "Ð": "D",
+  "þ": "th",
+  "Þ": "Th",
+  "ı": "i",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "…": "...",
+  "•": "*",
+  "\u00a0": " ",
+}
+
+const CONTROL_CHARACTERS = new Set(["\n", "\r", "\t"])
+
+export function normalizeCharset(charset: string | undefined): DeviceCharset {
+  const normalized = (charset ?? "").toLowerCase().replace(/[-_\s]/g, "")
+  if (normalized === "ascii" || normalized === "usascii") return "ascii"
+  if (normalized === "latin1" || normalized === "iso88591") return "latin1"
+  return "utf8"
+}
+
+const canDisplay = (char: string, charset: DeviceCharset) => {
+  const code = char.codePointAt(0) as number
+  if (charset === "ascii") return code >= 0x20 && code <= 0x7e
+  if (charset === "latin1") return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)
+  return true
+}
+
+export function transliterate(text: string, charset: DeviceCharset): TransliterationResult {
+  if (charset === "utf8") return { text, unsupported: [] }
+
+  let result = ""
+  const unsupported = new Set<string>()
+
+  for (const char of text) {
+    if (CONTROL_CHARACTERS.has(char) || canDisplay(char, charset)) {
+      result += char
+      continue
+    }
+
+    // Strip diacritics: "ệ" decomposes to "e" plus combining marks.
+    const mapped = REPLACEMENTS[char] ?? char.normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    if (mapped && Array.from(mapped).every((mappedChar) => canDisplay(mappedChar, charset))) {
+      result += mapped
+    } else {
+      result += "?"
+      unsupported.add(char)
+    }
+  }
+
+  return { text: result, unsupported: Array.from(unsupported) }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import {
+  autoAssignCompartments,
+  getDayCompartments,
+  getMedicineOccurrences,
+  validateCompartments,
+} from "@/lib/compartments"
+import { makeAlert } from "@/lib/test-helpers"
+
+describe("getDayCompartments", () => {
+  it("returns the weekday's row of the tray", () => {
+    expect(getDayCompartments("0")).toEqual([1, 2, 3, 4])
+    expect(getDayCompartments("6")).toEqual([25, 26, 27, 28])
+    // 2026-03-17 is a Tuesday.
+    expect(getDayCompartments("2026-03-17")).toEqual([9, 10, 11, 12])
+  })
+})
+
+describe("getMedicineOccurrences", () => {
+  it("lists medicine doses in weekly order", () => {
+    const alerts = [
+      makeAlert({ selectedDays: ["3", "1"], hour: "20" }),
+      makeAlert({ type: "Reminder" }),
+      makeAlert({ compartments: { "1@08:00": "5" } }),
+    ]
+    const occurrences = getMedicineOccurrences(alerts)
+    expect(occurrences.map(({ alertIndex, key, compartment }) => [alertIndex, key, compartment])).toEqual([
+      [2, "1@08:00", 5],
+      [0, "1@20:00", undefined],
+      [0, "3@20:00", undefined],
+    ])
+  })
+})
+
+describe("autoAssignCompartments", () => {
+  it("fills each day's row in time order, keeping existing assignments", () => {
+    const alerts = [
+      makeAlert({ isEveryday: true, extraTimes: [{ hour: "20", minute: "00" }] }),
+      makeAlert({ hour: "12", compartments: { "1@12:00": "5" } }),
+    ]
+    const assigned = autoAssignCompartments(alerts)
+    expect(assigned.get(0)).toMatchObject({ "0@08:00": "1", "0@20:00": "2", "1@08:00": "6", "1@20:00": "7" })
+    expect(assigned.get(1)).toEqual({ "1@12:00": "5" })
+  })
+
+  it("leaves doses beyond a full row unassigned", () => {
+    const extraTimes = ["10", "12", "14", "16"].map((hour) => ({ hour, minute: "00" }))
+    const assigned = autoAssignCompartments([makeAlert({ extraTimes })])
+    expect(assigned.get(0)).toEqual({ "1@08:00": "5", "1@10:00": "6", "1@12:00": "7", "1@14:00": "8" })
+  })
+})
+
+describe("validateCompartments", () => {
+  it("accepts an assignment made by autoAssignCompartments", () => {
+    const alerts = [makeAlert({ isEveryday: true })]
+    const compartments = autoAssignCompartments(alerts).get(0)
+    expect(validateCompartments([{ ...alerts[0], compartments }])).toEqual([])
+  })
+
+  it("rejects compartments outside the day's row", () => {
+    expect(validateCompartments([makeAlert({ compartments: { "1@08:00": "1" } })])).toEqual([
+      "Alert 1: compartment for Mon 08:00 must be in its day's row, 5–8.",
+    ])
+  })
+
+  it("rejects a compartment shared by two doses", () => {
+    const alerts = [
+      makeAlert({ compartments: { "1@08:00": "5" } }),
+      makeAlert({ hour: "20", compartments: { "1@20:00": "5" } }),
+    ]
+    expect(validateCompartments(alerts)).toEqual([
+      "Compartment 5 is assigned to more than one dose: alert 1 Mon 08:00, alert 2 Mon 20:00.",
+    ])
+  })
+
+  it("checks only doses that have a compartment", () => {
+    const extraTimes = ["10", "12", "14", "16"].map((hour) => ({ hour, minute: "00" }))
+    expect(validateCompartments([makeAlert({ extraTimes })])).toEqual([])
+    expect(validateCompartments([makeAlert({ extraTimes, compartments: { "1@08:00": "5" } })])).toEqual([])
+  })
+
+  it("lets one-offs on different dates share a compartment", () => {
+    // 2026-03-16 and 2026-03-23 are Mondays a week apart.
+    const alerts = [
+      makeAlert({ kind: "once", date: "2026-03-16", compartments: { "2026-03-16@08:00": "5" } }),
+      makeAlert({ kind: "once", date: "2026-03-23", compartments: { "2026-03-23@08:00": "5" } }),
+    ]
+    expect(validateCompartments(alerts)).toEqual([])
+  })
+
+  it("rejects a one-off sharing a compartment with a dose in the same week", () => {
+    const oneOff = makeAlert({ kind: "once", date: "2026-03-16", compartments: { "2026-03-16@08:00": "5" } })
+    const sameDay = { ...oneOff, hour: "09", compartments: { "2026-03-16@09:00": "5" } }
+    const [problem, ...others] = validateCompartments([oneOff, sameDay])
+    expect(problem).toMatch(/^Compartment 5 is assigned to more than one dose: alert 1 .+ 08:00, alert 2 .+ 09:00\.$/)
+    expect(others).toEqual([])
+    expect(validateCompartments([makeAlert({ compartments: { "1@08:00": "5" } }), oneOff])).toHaveLength(1)
+  })
+})
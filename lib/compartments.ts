@@ -0,0 +1,115 @@
+import { formatDay, formatTime, getAlertOccurrences, isDateString, parseDateString } from "@/lib/schedule"
+import type { Alert, AlertTime } from "@/lib/types"
+
+// The RXbot's dispenser tray: one row per weekday, four doses a day,
+// numbered 1–28 row by row starting with Sunday.
+export const COMPARTMENT_COUNT = 28
+export const COMPARTMENTS_PER_DAY = 4
+
+// Key of one expanded occurrence in Alert.compartments, e.g. "1@08:00" for
+// Monday at 08:00 or "2025-03-14@20:00" for a one-off.
+export const getOccurrenceKey = (day: string, time: AlertTime) => `${day}@${formatTime(time)}`
+
+export type MedicineOccurrence = {
+  alertIndex: number
+  key: string
+  day: string
+  time: AlertTime
+  compartment?: number
+}
+
+// Weekday an occurrence falls on, for one-offs too; -1 if unknown.
+const getWeekday = (day: string) => (isDateString(day) ? (parseDateString(day)?.getDay() ?? -1) : Number.parseInt(day))
+
+// The compartments in the tray row of the weekday an occurrence falls on.
+export function getDayCompartments(day: string): number[] {
+  const weekday = getWeekday(day)
+  if (weekday < 0) return []
+  return Array.from({ length: COMPARTMENTS_PER_DAY }, (_, i) => weekday * COMPARTMENTS_PER_DAY + i + 1)
+}
+
+// Every dose the dispenser could serve, in weekly order (Sunday first, then by time).
+export function getMedicineOccurrences(alerts: Alert[]): MedicineOccurrence[] {
+  const occurrences = alerts.flatMap((alert, alertIndex) => {
+    if (alert.type !== "Medicine") return []
+    return getAlertOccurrences(alert).flatMap(({ time, days }) =>
+      days.map((day) => {
+        const key = getOccurrenceKey(day, time)
+        const compartment = alert.compartments?.[key]
+        return { alertIndex, key, day, time, ...(compartment && { compartment: Number(compartment) }) }
+      }),
+    )
+  })
+
+  return occurrences.sort(
+    (a, b) => getWeekday(a.day) - getWeekday(b.day) || formatTime(a.time).localeCompare(formatTime(b.time)),
+  )
+}
+
+export const describeOccurrence = (occurrence: Pick<MedicineOccurrence, "day" | "time">) =>
+  `${formatDay(occurrence.day)} ${formatTime(occurrence.time)}`
+
+// Fills each dose into the first free compartment of its weekday's row, in
+// order of time, keeping any that are already assigned. Doses beyond a full
+// row stay unassigned. Returns the new compartments map of each Medicine
+// alert given a dose, by alert index.
+export function autoAssignCompartments(alerts: Alert[]): Map<number, Record<string, string>> {
+  const occurrences = getMedicineOccurrences(alerts)
+  const used = new Set(occurrences.map((occurrence) => occurrence.compartment))
+  const assigned = new Map<number, Record<string, string>>()
+
+  occurrences.forEach((occurrence) => {
+    const free = getDayCompartments(occurrence.day).find((compartment) => !used.has(compartment))
+    const compartment = occurrence.compartment ?? free
+    used.add(compartment)
+    if (!compartment) return
+    assigned.set(occurrence.alertIndex, {
+      ...assigned.get(occurrence.alertIndex),
+      [occurrence.key]: compartment.toString(),
+    })
+  })
+
+  return assigned
+}
+
+// Schedule-wide checks: every compartment lies in the row of its dose's
+// weekday and opens for a single dose per week. The tray is refilled weekly,
+// so one-offs on different dates may share a compartment, but a weekly dose
+// may not share one with anything. Unassigned doses are not checked, and
+// assignments for occurrences the alert no longer has are ignored.
+export function validateCompartments(alerts: Alert[]): string[] {
+  const problems: string[] = []
+  const owners = new Map<number, MedicineOccurrence[]>()
+  const occurrences = getMedicineOccurrences(alerts)
+
+  occurrences.forEach((occurrence) => {
+    const { compartment } = occurrence
+    if (compartment === undefined) return
+    const row = getDayCompartments(occurrence.day)
+    if (!row.includes(compartment)) {
+      const allowed = row.length > 0 ? `${row[0]}–${row[row.length - 1]}` : `1–${COMPARTMENT_COUNT}`
+      problems.push(
+        `Alert ${occurrence.alertIndex + 1}: compartment for ${describeOccurrence(occurrence)} must be in its day's row, ${allowed}.`,
+      )
+      return
+    }
+    owners.set(compartment, [...(owners.get(compartment) ?? []), occurrence])
+  })
+
+  owners.forEach((occurrences, compartment) => {
+    // Doses that would be in the tray during the same week.
+    const byDate = new Map<string, MedicineOccurrence[]>()
+    occurrences.forEach((occurrence) => byDate.set(occurrence.day, [...(byDate.get(occurrence.day) ?? []), occurrence]))
+    const weeks = occurrences.some((occurrence) => !isDateString(occurrence.day))
+      ? [occurrences]
+      : Array.from(byDate.values())
+
+    weeks.forEach((sharing) => {
+      if (sharing.length < 2) return
+      const doses = sharing.map((occurrence) => `alert ${occurrence.alertIndex + 1} ${describeOccurrence(occurrence)}`)
+      problems.push(`Compartment ${compartment} is assigned to more than one dose: ${doses.join(", ")}.`)
+    })
+  })
+
+  return problems
+}
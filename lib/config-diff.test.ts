@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { diffConfigurations } from "@/lib/config-diff"
+import { makeAlert, makeConfig } from "@/lib/test-helpers"
+
+describe("diffConfigurations", () => {
+  it("treats differently grouped but equivalent schedules as equal", () => {
+    const grouped = makeConfig([makeAlert({ selectedDays: ["1", "3"] })])
+    const split = makeConfig([makeAlert({ selectedDays: ["3"] }), makeAlert({ selectedDays: ["1"] })])
+    expect(diffConfigurations(grouped, split)).toEqual([])
+  })
+
+  it("reports changed contact and device fields", () => {
+    const expected = makeConfig([makeAlert()])
+    expect(diffConfigurations(expected, { ...expected, phone: "555-0199", deviceId: 7 })).toEqual([
+      { kind: "field", field: "phone", expected: "555-0100", actual: "555-0199" },
+      { kind: "field", field: "deviceId", expected: "42", actual: "7" },
+    ])
+  })
+
+  it("reports alerts missing from the device and extra ones on it", () => {
+    const expected = makeConfig([makeAlert({ selectedDays: ["1", "3"] })])
+    const actual = makeConfig([makeAlert({ selectedDays: ["1", "5"] })])
+    const slot = (day: string) => ({ type: "m", day, hour: "08", minute: "00", message: "Take pills" })
+    expect(diffConfigurations(expected, actual)).toEqual([
+      { kind: "alert", change: "missing", alert: slot("3") },
+      { kind: "alert", change: "extra", alert: slot("5") },
+    ])
+  })
+
+  it("counts repeated slots", () => {
+    const expected = makeConfig([makeAlert(), makeAlert()])
+    expect(diffConfigurations(expected, makeConfig([makeAlert()]))).toHaveLength(1)
+  })
+
+  it("compares against the expected text as transliterated for the device", () => {
+    const expected = makeConfig([makeAlert({ message: "Café" })], { name: "Zoë", charset: "ascii" })
+    const actual = makeConfig([makeAlert({ message: "Cafe" })], { name: "Zoe" })
+    expect(diffConfigurations(expected, actual)).toEqual([])
+  })
+})
@@ -0,0 +1,46 @@
+import type { FormData } from "@/lib/types"
+import { type ExpandedAlert, expandAlerts, formatExpandedAlert, toDeviceCharset } from "@/lib/wire-format"
+
+export type ConfigDifference =
+  | { kind: "field"; field: keyof Omit<FormData, "alerts">; expected: string; actual: string }
+  | { kind: "alert"; change: "missing" | "extra"; alert: ExpandedAlert }
+
+const FIELDS = ["name", "phone", "email", "medicalInfo", "deviceId"] as const
+
+// Compares two configurations slot by slot. Alerts are compared in their
+// expanded per-day form so that differently grouped but equivalent schedules
+// are reported as identical. "missing" means expected but not on the device.
+// The expected side is transliterated first, as it would be when sent.
+export function diffConfigurations(config: FormData, actual: FormData): ConfigDifference[] {
+  const expected = toDeviceCharset(config)
+  const differences: ConfigDifference[] = []
+
+  FIELDS.forEach((field) => {
+    const expectedValue = String(expected[field])
+    const actualValue = String(actual[field])
+    if (expectedValue !== actualValue) {
+      differences.push({ kind: "field", field, expected: expectedValue, actual: actualValue })
+    }
+  })
+
+  const remaining = new Map<string, ExpandedAlert[]>()
+  expandAlerts(actual.alerts, actual.extendedAlertTypes).forEach((alert) => {
+    const key = formatExpandedAlert(alert)
+    remaining.set(key, [...(remaining.get(key) ?? []), alert])
+  })
+
+  expandAlerts(expected.alerts, expected.extendedAlertTypes).forEach((alert) => {
+    const matches = remaining.get(formatExpandedAlert(alert))
+    if (matches && matches.length > 0) {
+      matches.pop()
+    } else {
+      differences.push({ kind: "alert", change: "missing", alert })
+    }
+  })
+
+  remaining.forEach((alerts) => {
+    alerts.forEach((alert) => differences.push({ kind: "alert", change: "extra", alert }))
+  })
+
+  return differences
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { crc32, crc32Hex } from "@/lib/crc32"
+
+describe("crc32", () => {
+  it("matches the IEEE check value", () => {
+    expect(crc32("123456789")).toBe(0xcbf43926)
+  })
+
+  it("is zero for empty input", () => {
+    expect(crc32("")).toBe(0)
+  })
+
+  it("hashes the UTF-8 bytes", () => {
+    // zlib.crc32("é".encode("utf-8"))
+    expect(crc32Hex("é")).toBe("0E048D3E")
+  })
+
+  it("pads to eight uppercase hex digits", () => {
+    expect(crc32Hex("a")).toBe("E8B7BE43")
+    expect(crc32Hex("123456789")).toBe("CBF43926")
+  })
+})
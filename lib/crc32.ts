@@ -0,0 +1,27 @@
+// CRC-32 (IEEE 802.3, reflected polynomial 0xEDB88320), matching zlib.crc32 and
+// the RXbot firmware. Computed over the UTF-8 bytes of the input.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(text: string): number {
+  const bytes = new TextEncoder().encode(text)
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export function crc32Hex(text: string): string {
+  return crc32(text).toString(16).toUpperCase().padStart(8, "0")
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { computeDelta, sendDelta } from "@/lib/delta-protocol"
+import { type SerialLink, createSerialLink } from "@/lib/serial-link"
+import { createFakePort, makeAlert, makeConfig } from "@/lib/test-helpers"
+import type { Alert, FormData } from "@/lib/types"
+import { formatAlertData, getFrameChecksum, parseAlertData } from "@/lib/wire-format"
+
+const makeFrame = (alerts: Alert[], changes: Partial<FormData> = {}) =>
+  parseAlertData(formatAlertData(makeConfig(alerts, changes)))
+
+const weekdays = (...selectedDays: string[]) => makeAlert({ selectedDays })
+
+describe("computeDelta", () => {
+  it("sends nothing for an unchanged configuration", () => {
+    expect(computeDelta(makeFrame([weekdays("1", "3")]), makeFrame([weekdays("1", "3")]))).toEqual([])
+  })
+
+  it("updates a changed slot in place", () => {
+    const previous = makeFrame([weekdays("1", "3", "5"), makeAlert({ selectedDays: ["0"], hour: "21" })])
+    const next = makeFrame([weekdays("1", "3", "5"), makeAlert({ selectedDays: ["0"], hour: "20" })])
+    expect(computeDelta(previous, next)).toEqual(["@UPD,3,m,0,20,00,Take pills"])
+  })
+
+  it("adds and deletes slots from the last to the first", () => {
+    const previous = makeFrame([weekdays("1", "3", "5")])
+    expect(computeDelta(previous, makeFrame([weekdays("1", "2", "3", "5")]))).toEqual(["@ADD,1,m,2,08,00,Take pills"])
+    expect(computeDelta(previous, makeFrame([weekdays("5")]))).toEqual(["@DEL,1", "@DEL,0"])
+  })
+
+  it("escapes text and updates the contact and medical info lines", () => {
+    const previous = makeFrame([makeAlert()])
+    const next = makeFrame([makeAlert({ message: "Take 2, with food" })], {
+      phone: "555-0199",
+      medicalInfo: "Diabetic\nAllergic to penicillin",
+    })
+    expect(computeDelta(previous, next)).toEqual([
+      "@UPD,0,m,1,08,00,Take 2\\, with food",
+      "@CONTACT,Jane Doe,555-0199,jane@example.com",
+      "@INFO,Diabetic\\nAllergic to penicillin",
+    ])
+  })
+
+  it("carries course dates in slot commands", () => {
+    const next = makeFrame([makeAlert({ endDate: "2026-03-31" })])
+    expect(computeDelta(makeFrame([makeAlert()]), next)).toEqual(["@UPD,0,m,1,08,00,Take pills,,2026-03-31"])
+  })
+
+  it("refuses other devices and v2 frames", () => {
+    const previous = makeFrame([makeAlert()])
+    expect(computeDelta(previous, makeFrame([makeAlert()], { deviceId: 7 }))).toBeNull()
+    expect(computeDelta(previous, makeFrame([makeAlert()], { protocolVersion: 2 }))).toBeNull()
+  })
+})
+
+describe("sendDelta", () => {
+  const payload = formatAlertData(makeConfig([makeAlert()]))
+  const checksum = getFrameChecksum(payload) as string
+  const commands = ["@DEL,1", "@UPD,0,m,1,08,00,Take pills"]
+
+  let link: SerialLink | null = null
+
+  afterEach(async () => {
+    await link?.close()
+    link = null
+  })
+
+  // A device that ACKs every slot command and answers COMMIT with the given reply.
+  const connectDevice = (commitReply: string) => {
+    const fake = createFakePort((text) => [text.startsWith("@COMMIT") ? commitReply : "ACK"])
+    link = createSerialLink(fake.port)
+    return { ...fake, link }
+  }
+
+  it("sends each command, then commits with the frame checksum", async () => {
+    const device = connectDevice(`ACK,${checksum}`)
+    expect(await sendDelta(device.link, commands, checksum, { timeoutMs: 50 })).toEqual({ status: "ack", attempts: 1 })
+    expect(device.written).toEqual([...commands, `@COMMIT,${checksum}`].map((command) => command + "\n"))
+  })
+
+  it("fails when the device holds a different configuration afterwards", async () => {
+    const device = connectDevice("ACK,00000000")
+    expect(await sendDelta(device.link, commands, checksum, { timeoutMs: 50 })).toEqual({
+      status: "checksum",
+      attempts: 1,
+      expected: checksum,
+      received: "00000000",
+    })
+  })
+
+  it("fails when COMMIT is acknowledged without a checksum", async () => {
+    const device = connectDevice("ACK")
+    expect(await sendDelta(device.link, commands, checksum, { timeoutMs: 50 })).toEqual({
+      status: "checksum",
+      attempts: 1,
+      expected: checksum,
+      received: "(none)",
+    })
+  })
+
+  it("stops at the first NACK", async () => {
+    const fake = createFakePort(() => ["NACK,1,slot out of range"])
+    link = createSerialLink(fake.port)
+    expect(await sendDelta(link, commands, checksum, { timeoutMs: 50 })).toMatchObject({
+      status: "nack",
+      reason: "Malformed frame: slot out of range",
+    })
+    expect(fake.written).toEqual(["@DEL,1\n"])
+  })
+})
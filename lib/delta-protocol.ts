@@ -0,0 +1,118 @@
+import { type SendResult, type TransferOptions, describeNack, sendCommand } from "@/lib/device-protocol"
+import { SerialCancelledError, SerialTimeoutError, type SerialLink } from "@/lib/serial-link"
+import { type DecodedFrame, type ExpandedAlert, escapeField, formatExpandedAlert } from "@/lib/wire-format"
+
+// Incremental updates address the device's alert slots, which hold the
+// expanded alerts in frame order:
+//   @ADD,{slot},{type},{day},{hour},{minute},{message}   insert before slot, shifting later slots up
+//   @UPD,{slot},{type},{day},{hour},{minute},{message}   replace slot
+//   (slots with course dates or follow-up settings carry the same optional
+//   fields after the message as frame lines do)
+//   @DEL,{slot}                                          remove slot, shifting later slots down
+//   @CONTACT,{name},{phone},{email}
+//   @INFO,{medical info}
+//   @COMMIT,{checksum}
+// Each command is answered with ACK or NACK. COMMIT carries the checksum of the
+// full frame the device should now hold; the device answers ACK,{checksum} of
+// what it actually holds, so a lost or repeated command is always detected.
+// A COMMIT answered without a checksum proves nothing about the slots and is
+// treated as a mismatch, so the caller falls back to a full send.
+// Slots are only addressed this way in the expanded v1 layout; v2 frames are
+// already compact and are always sent whole.
+
+const sameAlert = (a: ExpandedAlert, b: ExpandedAlert) => formatExpandedAlert(a) === formatExpandedAlert(b)
+
+// Minimal edit script turning the previous slot list into the next one. The
+// commands are ordered from the last slot to the first, so every slot number
+// still refers to the device's layout at the moment the command arrives.
+function diffSlots(previous: ExpandedAlert[], next: ExpandedAlert[]): string[] {
+  const m = previous.length
+  const n = next.length
+  const cost: number[][] = Array.from({ length: m + 1 }, (_, i) =>
+    Array.from({ length: n + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      cost[i][j] = sameAlert(previous[i - 1], next[j - 1])
+        ? cost[i - 1][j - 1]
+        : 1 + Math.min(cost[i - 1][j - 1], cost[i - 1][j], cost[i][j - 1])
+    }
+  }
+
+  const commands: string[] = []
+  let i = m
+  let j = n
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && sameAlert(previous[i - 1], next[j - 1])) {
+      i--
+      j--
+    } else if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + 1) {
+      commands.push(`@UPD,${i - 1},${formatExpandedAlert(next[j - 1])}`)
+      i--
+      j--
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      commands.push(`@DEL,${i - 1}`)
+      i--
+    } else {
+      commands.push(`@ADD,${i},${formatExpandedAlert(next[j - 1])}`)
+      j--
+    }
+  }
+
+  return commands
+}
+
+// Returns the commands that bring a device holding `previous` to `next`, or
+// null when the two cannot be bridged incrementally (a different device or a
+// frame that is not in the v1 slot layout).
+export function computeDelta(previous: DecodedFrame, next: DecodedFrame): string[] | null {
+  if (previous.deviceId !== next.deviceId) return null
+  if (previous.version > 1 || next.version > 1) return null
+
+  const commands = diffSlots(previous.alerts, next.alerts)
+
+  if (previous.name !== next.name || previous.phone !== next.phone || previous.email !== next.email) {
+    commands.push(`@CONTACT,${[next.name, next.phone, next.email].map(escapeField).join(",")}`)
+  }
+  if (previous.medicalInfo !== next.medicalInfo) {
+    commands.push(`@INFO,${escapeField(next.medicalInfo)}`)
+  }
+
+  return commands
+}
+
+export async function sendDelta(
+  link: SerialLink,
+  commands: string[],
+  checksum: string,
+  { timeoutMs = 3000, signal, onProgress }: Pick<TransferOptions, "timeoutMs" | "signal" | "onProgress"> = {},
+): Promise<SendResult> {
+  const allCommands = [...commands, `@COMMIT,${checksum}`]
+
+  for (const [index, command] of allCommands.entries()) {
+    // Stopping between commands is safe: the stale baseline makes the next
+    // COMMIT fail its checksum, which forces a full send.
+    if (signal?.aborted) return { status: "cancelled", attempts: 1 }
+    onProgress?.(index, allCommands.length)
+
+    let reply
+    try {
+      reply = await sendCommand(link, command, { timeoutMs, signal })
+    } catch (error) {
+      if (error instanceof SerialCancelledError) return { status: "cancelled", attempts: 1 }
+      if (error instanceof SerialTimeoutError) return { status: "timeout", attempts: 1 }
+      throw error
+    }
+
+    if (!reply.ok) {
+      return { status: "nack", attempts: 1, code: reply.code, reason: describeNack(reply.code, reply.detail) }
+    }
+    if (command.startsWith("@COMMIT") && reply.checksum !== checksum) {
+      return { status: "checksum", attempts: 1, expected: checksum, received: reply.checksum ?? "(none)" }
+    }
+  }
+
+  onProgress?.(allCommands.length, allCommands.length)
+  return { status: "ack", attempts: 1 }
+}
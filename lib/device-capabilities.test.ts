@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { describeCapabilities, validateAgainstCapabilities } from "@/lib/device-capabilities"
+import { makeAlert, makeConfig } from "@/lib/test-helpers"
+import type { DeviceCapabilities } from "@/lib/types"
+
+const capabilities: DeviceCapabilities = { protocolVersion: 1, maxAlerts: 10, maxMessageLength: 20, charset: "ascii" }
+
+describe("describeCapabilities", () => {
+  it("summarizes the reported limits", () => {
+    expect(describeCapabilities(capabilities)).toBe("protocol v1 · up to 10 alerts · 20-character messages · ASCII")
+  })
+})
+
+describe("validateAgainstCapabilities", () => {
+  it("accepts a configuration within every limit", () => {
+    expect(validateAgainstCapabilities(makeConfig([makeAlert()]), capabilities)).toEqual([])
+  })
+
+  it("rejects a newer protocol version than the firmware speaks", () => {
+    expect(validateAgainstCapabilities(makeConfig([makeAlert()], { protocolVersion: 2 }), capabilities)).toEqual([
+      "Device firmware speaks protocol v1, but the configuration uses v2.",
+    ])
+  })
+
+  it("counts alert slots as the device stores them", () => {
+    const alerts = [makeAlert({ isEveryday: true, extraTimes: [{ hour: "20", minute: "00" }] })]
+    expect(validateAgainstCapabilities(makeConfig(alerts), capabilities)).toEqual([
+      "Schedule needs 14 alert slots, but the device holds at most 10.",
+    ])
+    const v2 = { ...capabilities, protocolVersion: 2 }
+    expect(validateAgainstCapabilities(makeConfig(alerts, { protocolVersion: 2 }), v2)).toEqual([])
+  })
+
+  it("requires firmware support for extended alert type codes", () => {
+    const config = makeConfig([makeAlert({ type: "Hydration", message: "Drink" })], { extendedAlertTypes: true })
+    expect(validateAgainstCapabilities(config, capabilities)).toEqual([
+      "Device firmware does not understand the Hydration alert type; turn off extended alert categories.",
+    ])
+    expect(validateAgainstCapabilities(config, { ...capabilities, alertTypeCodes: "rmh" })).toEqual([])
+    expect(validateAgainstCapabilities({ ...config, extendedAlertTypes: false }, capabilities)).toEqual([])
+  })
+
+  it("requires firmware support for course dates", () => {
+    const config = makeConfig([makeAlert({ startDate: "2026-03-01", endDate: "2026-03-31" })])
+    expect(validateAgainstCapabilities(config, capabilities)).toEqual([
+      "Device firmware does not support course start and end dates; remove them from the schedule or update the firmware.",
+    ])
+    expect(validateAgainstCapabilities(config, { ...capabilities, lineExtensions: "c" })).toEqual([])
+  })
+
+  it("checks message length after transliteration", () => {
+    const config = makeConfig([makeAlert({ message: "Take “two” pills now" })], { charset: "ascii" })
+    expect(validateAgainstCapabilities(config, capabilities)).toEqual([])
+    expect(validateAgainstCapabilities(config, { ...capabilities, maxMessageLength: 10 })).toEqual([
+      "Alert 1 message is 20 characters; the device allows 10.",
+    ])
+  })
+
+  it("rejects characters the device display cannot show", () => {
+    const config = makeConfig([makeAlert({ message: "Café" })], { charset: "utf8" })
+    expect(validateAgainstCapabilities(config, capabilities)).toEqual([
+      "Alert 1 message contains characters the device's ascii display cannot show: é",
+    ])
+  })
+})
@@ -0,0 +1,87 @@
+import { ALERT_TYPES, getTypeCode } from "@/lib/alert-types"
+import { normalizeCharset, transliterate } from "@/lib/charset"
+import type { DeviceCapabilities, FormData } from "@/lib/types"
+import {
+  ALERT_LINE_EXTENSIONS,
+  DEFAULT_WIRE_FORMAT_VERSION,
+  countDeviceSlots,
+  getRequiredExtensions,
+} from "@/lib/wire-format"
+
+export function describeCapabilities(capabilities: DeviceCapabilities): string {
+  return [
+    `protocol v${capabilities.protocolVersion}`,
+    `up to ${capabilities.maxAlerts} alerts`,
+    `${capabilities.maxMessageLength}-character messages`,
+    capabilities.charset.toUpperCase(),
+    ...(capabilities.bufferSize ? [`${capabilities.bufferSize}-byte receive buffer`] : []),
+    ...(capabilities.alertTypeCodes ? [`alert types ${capabilities.alertTypeCodes}`] : []),
+    ...(capabilities.lineExtensions ? [`line extensions ${capabilities.lineExtensions}`] : []),
+  ].join(" · ")
+}
+
+// True when the firmware understands every category's own type code.
+export function supportsExtendedAlertTypes(capabilities: DeviceCapabilities): boolean {
+  const codes = capabilities.alertTypeCodes ?? "rm"
+  return Object.values(ALERT_TYPES).every((type) => codes.includes(type.code))
+}
+
+// Returns a human-readable problem for everything in the configuration the
+// device cannot store or display. An empty list means it is safe to send.
+export function validateAgainstCapabilities(data: FormData, capabilities: DeviceCapabilities): string[] {
+  const problems: string[] = []
+  const version = data.protocolVersion ?? DEFAULT_WIRE_FORMAT_VERSION
+
+  if (capabilities.protocolVersion < version) {
+    problems.push(
+      `Device firmware speaks protocol v${capabilities.protocolVersion}, but the configuration uses v${version}.`,
+    )
+  }
+
+  const slotCount = countDeviceSlots(data.alerts, version)
+  if (slotCount > capabilities.maxAlerts) {
+    problems.push(`Schedule needs ${slotCount} alert slots, but the device holds at most ${capabilities.maxAlerts}.`)
+  }
+
+  const deviceCodes = capabilities.alertTypeCodes ?? "rm"
+  const unsupportedTypes = Array.from(new Set(data.alerts.map((alert) => alert.type))).filter(
+    (type) => !deviceCodes.includes(getTypeCode(type, data.extendedAlertTypes ?? false)),
+  )
+  if (unsupportedTypes.length > 0) {
+    problems.push(
+      `Device firmware does not understand the ${unsupportedTypes.map((type) => ALERT_TYPES[type].label).join(", ")} alert type; turn off extended alert categories.`,
+    )
+  }
+
+  const deviceExtensions = capabilities.lineExtensions ?? ""
+  const missingExtensions = getRequiredExtensions(data.alerts).filter(
+    (extension) => !deviceExtensions.includes(ALERT_LINE_EXTENSIONS[extension].code),
+  )
+  if (missingExtensions.length > 0) {
+    problems.push(
+      `Device firmware does not support ${missingExtensions.map((extension) => ALERT_LINE_EXTENSIONS[extension].label).join(", ")}; remove them from the schedule or update the firmware.`,
+    )
+  }
+
+  const configCharset = normalizeCharset(data.charset)
+  const deviceCharset = normalizeCharset(capabilities.charset)
+  data.alerts.forEach((alert, index) => {
+    // Check the message as it will be sent, after the configuration's own transliteration.
+    const message = transliterate(alert.message, configCharset).text
+    const length = Array.from(message).length
+    if (length > capabilities.maxMessageLength) {
+      problems.push(
+        `Alert ${index + 1} message is ${length} characters; the device allows ${capabilities.maxMessageLength}.`,
+      )
+    }
+
+    const undisplayable = Array.from(new Set(message)).filter((char) => transliterate(char, deviceCharset).text !== char)
+    if (undisplayable.length > 0) {
+      problems.push(
+        `Alert ${index + 1} message contains characters the device's ${capabilities.charset} display cannot show: ${undisplayable.join(" ")}`,
+      )
+    }
+  })
+
+  return problems
+}
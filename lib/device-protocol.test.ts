@@ -0,0 +1,250 @@
+import { afterEach, describe, expect, it } from "vitest"
+import {
+  describeNack,
+  formatClockCommand,
+  parseCapabilitiesReply,
+  parseClockReply,
+  parseDeviceReply,
+  readCapabilities,
+  readConfiguration,
+  readDeviceClock,
+  sendConfiguration,
+  setDeviceClock,
+} from "@/lib/device-protocol"
+import { type SerialLink, createSerialLink } from "@/lib/serial-link"
+import { createFakePort, makeAlert, makeConfig } from "@/lib/test-helpers"
+import { formatAlertData, getFrameChecksum } from "@/lib/wire-format"
+
+const payload = formatAlertData(makeConfig([makeAlert({ isEveryday: true })]))
+const checksum = getFrameChecksum(payload) as string
+
+let link: SerialLink | null = null
+
+afterEach(async () => {
+  await link?.close()
+  link = null
+})
+
+// A device that collects the frame across writes and answers each complete
+// one with the next of the given replies (the last one repeats).
+function connectDevice(...replies: string[]) {
+  let received = ""
+  let frames = 0
+  const fake = createFakePort((text) => {
+    received += text
+    if (!/@END,\w+\n/.test(received)) return []
+    received = ""
+    return [replies[Math.min(frames++, replies.length - 1)]]
+  })
+  link = createSerialLink(fake.port)
+  return { ...fake, link, frameCount: () => frames }
+}
+
+const options = { timeoutMs: 50, pacingMs: 0 }
+
+describe("parseDeviceReply", () => {
+  it("reads ACK with and without a checksum", () => {
+    expect(parseDeviceReply("ACK")).toEqual({ ok: true, checksum: null })
+    expect(parseDeviceReply("ACK,abc123ef")).toEqual({ ok: true, checksum: "ABC123EF" })
+  })
+
+  it("reads NACK codes and details", () => {
+    expect(parseDeviceReply("NACK,4,alert 3, too long")).toEqual({ ok: false, code: "4", detail: "alert 3, too long" })
+    expect(describeNack("4", "alert 3")).toBe("Message too long: alert 3")
+    expect(describeNack("99", "")).toBe("Device error 99")
+  })
+})
+
+describe("sendConfiguration", () => {
+  it("succeeds when the device echoes the frame's checksum", async () => {
+    const device = connectDevice(`ACK,${checksum}`)
+    expect(await sendConfiguration(device.link, payload, options)).toEqual({ status: "ack", attempts: 1 })
+    expect(device.written.join("")).toBe(payload + "\n")
+  })
+
+  it("accepts a bare ACK from firmware without checksums", async () => {
+    const device = connectDevice("ACK")
+    expect(await sendConfiguration(device.link, payload, options)).toEqual({ status: "ack", attempts: 1 })
+  })
+
+  it("resends after a checksum mismatch", async () => {
+    const device = connectDevice("ACK,00000000", `ACK,${checksum}`)
+    expect(await sendConfiguration(device.link, payload, options)).toEqual({ status: "ack", attempts: 2 })
+    expect(device.frameCount()).toBe(2)
+  })
+
+  it("reports the last mismatch once retries run out", async () => {
+    const device = connectDevice("ACK,00000000")
+    expect(await sendConfiguration(device.link, payload, { ...options, retries: 2 })).toEqual({
+      status: "checksum",
+      attempts: 2,
+      expected: checksum,
+      received: "00000000",
+    })
+  })
+
+  it("reports the device's NACK reason", async () => {
+    const device = connectDevice("NACK,3")
+    expect(await sendConfiguration(device.link, payload, { ...options, retries: 1 })).toEqual({
+      status: "nack",
+      attempts: 1,
+      code: "3",
+      reason: "Too many alerts",
+    })
+  })
+
+  it("times out and aborts the partial frame when the device stays silent", async () => {
+    const fake = createFakePort()
+    link = createSerialLink(fake.port)
+    expect(await sendConfiguration(link, payload, { ...options, retries: 2 })).toEqual({
+      status: "timeout",
+      attempts: 2,
+    })
+    expect(fake.written.filter((text) => text.includes("@ABORT"))).toHaveLength(2)
+  })
+})
+
+describe("sendConfiguration in acknowledged chunks", () => {
+  const chunked = { ...options, chunkSize: 32, acknowledgeChunks: true }
+  const totalBytes = new TextEncoder().encode(payload + "\n").length
+
+  // A device that announces RDY,{bytes so far} after @XFER and every chunk,
+  // then ACKs the completed frame.
+  function connectBufferedDevice(xferReply?: string) {
+    let received = 0
+    const fake = createFakePort((text) => {
+      if (text.startsWith("@XFER")) return [xferReply ?? "RDY,0"]
+      if (text.includes("@ABORT")) return []
+      received += text.length
+      return [text.includes("@END,") ? `ACK,${checksum}` : `RDY,${received}`]
+    })
+    link = createSerialLink(fake.port)
+    return { ...fake, link }
+  }
+
+  it("announces the transfer and sends chunks no larger than the device buffer", async () => {
+    const device = connectBufferedDevice()
+    const progress: number[] = []
+    const result = await sendConfiguration(device.link, payload, {
+      ...chunked,
+      onProgress: (sent) => progress.push(sent),
+    })
+
+    expect(result).toEqual({ status: "ack", attempts: 1 })
+    expect(device.written[0]).toBe(`@XFER,${totalBytes},32\n`)
+    expect(device.written.slice(1).join("")).toBe(payload + "\n")
+    device.written.slice(1).forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(32))
+    expect(progress[0]).toBe(0)
+    expect(progress[progress.length - 1]).toBe(totalBytes)
+  })
+
+  it("reports a NACK to @XFER", async () => {
+    const device = connectBufferedDevice("NACK,6")
+    expect(await sendConfiguration(device.link, payload, { ...chunked, retries: 1 })).toMatchObject({
+      status: "nack",
+      code: "6",
+    })
+    expect(device.written).toHaveLength(1)
+  })
+
+  it("stops between chunks when cancelled and aborts the partial frame", async () => {
+    const device = connectBufferedDevice()
+    const controller = new AbortController()
+    const result = await sendConfiguration(device.link, payload, {
+      ...chunked,
+      signal: controller.signal,
+      onProgress: (sent) => sent > 0 && controller.abort(),
+    })
+
+    expect(result).toEqual({ status: "cancelled", attempts: 1 })
+    expect(device.written.slice(0, 2).join("")).toBe(`@XFER,${totalBytes},32\n` + payload.slice(0, 32))
+    expect(device.written[device.written.length - 1]).toBe("\n@ABORT\n")
+  })
+})
+
+describe("readConfiguration", () => {
+  it("collects the frame the device sends for @GET, skipping other output", async () => {
+    const fake = createFakePort((text) => (text === "@GET\n" ? ["BOOT OK", ...payload.split("\n")] : []))
+    link = createSerialLink(fake.port)
+    expect(await readConfiguration(link, { timeoutMs: 50 })).toMatchObject({
+      name: "Jane Doe",
+      deviceId: 42,
+      alerts: [makeAlert({ isEveryday: true, selectedDays: [] })],
+    })
+  })
+
+  it("rejects with the device's NACK", async () => {
+    const fake = createFakePort(() => ["NACK,5"])
+    link = createSerialLink(fake.port)
+    await expect(readConfiguration(link, { timeoutMs: 50 })).rejects.toThrow("Storage write failed")
+  })
+})
+
+describe("device clock", () => {
+  // Saturday 14 March 2026, 09:05:07 local time.
+  const time = new Date(2026, 2, 14, 9, 5, 7)
+
+  it("formats @TIME in local time with the weekday", () => {
+    expect(formatClockCommand(time)).toBe("@TIME,2026-03-14,6,09,05,07")
+  })
+
+  it("parses TIME replies", () => {
+    expect(parseClockReply("TIME,2026-03-14,6,09,05,07")).toEqual({ time, weekday: 6 })
+  })
+
+  it("rejects malformed TIME replies", () => {
+    expect(() => parseClockReply("TIME,2026-03,6,09,05,07")).toThrow(/Malformed clock reply/)
+    expect(() => parseClockReply("TIME,2026-03-14,,09,05,07")).toThrow(/Malformed clock reply/)
+  })
+
+  it("reads and sets the device clock", async () => {
+    const fake = createFakePort((text) => (text === "@CLOCK\n" ? ["TIME,2026-03-14,6,09,05,07"] : ["ACK"]))
+    link = createSerialLink(fake.port)
+    expect(await readDeviceClock(link, { timeoutMs: 50 })).toEqual({ time, weekday: 6 })
+    await setDeviceClock(link, time, { timeoutMs: 50 })
+    expect(fake.written).toEqual(["@CLOCK\n", "@TIME,2026-03-14,6,09,05,07\n"])
+  })
+
+  it("throws when the device refuses the time", async () => {
+    link = createSerialLink(createFakePort(() => ["NACK,1"]).port)
+    await expect(setDeviceClock(link, time, { timeoutMs: 50 })).rejects.toThrow("Malformed frame")
+  })
+})
+
+describe("capabilities", () => {
+  it("parses the required CAPS fields", () => {
+    expect(parseCapabilitiesReply("CAPS,1,50,32,latin1")).toEqual({
+      protocolVersion: 1,
+      maxAlerts: 50,
+      maxMessageLength: 32,
+      charset: "latin1",
+    })
+  })
+
+  it("defaults an unreported charset to ascii", () => {
+    expect(parseCapabilitiesReply("CAPS,1,50,32,").charset).toBe("ascii")
+  })
+
+  it("reads the optional receive buffer size", () => {
+    expect(parseCapabilitiesReply("CAPS,1,50,32,ascii,128").bufferSize).toBe(128)
+    expect(parseCapabilitiesReply("CAPS,1,50,32,ascii")).not.toHaveProperty("bufferSize")
+  })
+
+  it("reads the optional alert type codes", () => {
+    expect(parseCapabilitiesReply("CAPS,1,50,32,ascii,,rmahve").alertTypeCodes).toBe("rmahve")
+  })
+
+  it("reads the optional line extension codes", () => {
+    expect(parseCapabilitiesReply("CAPS,1,50,32,ascii,,,co").lineExtensions).toBe("co")
+  })
+
+  it("rejects malformed CAPS replies", () => {
+    expect(() => parseCapabilitiesReply("CAPS,1,many,32,ascii")).toThrow(/Malformed capabilities reply/)
+  })
+
+  it("queries the device with @CAPS", async () => {
+    const fake = createFakePort((text) => (text === "@CAPS\n" ? ["CAPS,1,50,32,ascii"] : []))
+    link = createSerialLink(fake.port)
+    expect(await readCapabilities(link, { timeoutMs: 50 })).toMatchObject({ maxAlerts: 50 })
+  })
+})
@@ -0,0 +1,358 @@
+import { SerialCancelledError, type SerialLink, SerialTimeoutError } from "@/lib/serial-link"
+import type { DeviceCapabilities, FormData } from "@/lib/types"
+import { getFrameChecksum, isFrameHeader, isFrameTrailer, parseAlertData, toFormData } from "@/lib/wire-format"
+
+// After receiving a configuration frame the RXbot answers with a single line:
+//   ACK[,{checksum}]
+//   NACK,{code}[,{detail}]
+// The ACK echoes the CRC-32 the device computed over the frame it received.
+//
+// Host commands are single lines starting with "@":
+//   @CAPS  device replies CAPS,{protocol version},{max alerts},{max message length},{charset}[,{rx buffer bytes}]
+//          [,{alert type codes}[,{alert line extensions}]], e.g. "rmahve" and "cofd"
+//          (empty fields where unreported; see ALERT_LINE_EXTENSIONS in lib/wire-format.ts)
+//   @GET   device replies with its stored configuration as a frame, or NACK
+//   @CLOCK device replies TIME,{yyyy-mm-dd},{weekday 0-6},{hh},{mm},{ss}
+//   @TIME,{yyyy-mm-dd},{weekday 0-6},{hh},{mm},{ss}
+//          sets the device RTC to the given local time, device replies ACK or NACK
+//
+// Frames are written in chunks so long schedules cannot overflow the device's
+// UART buffer. Firmware that reports a receive buffer size in CAPS supports a
+// per-chunk handshake: the host announces @XFER,{total bytes},{chunk size}, the
+// device answers RDY,{bytes received so far} once ready and after every chunk,
+// and the final ACK/NACK follows the last chunk. Other firmware gets chunks
+// paced by a fixed delay. A line "@ABORT" makes the device drop a partial frame.
+
+export type DeviceReply = { ok: true; checksum: string | null } | { ok: false; code: string; detail: string }
+
+export type SendResult =
+  | { status: "ack"; attempts: number }
+  | { status: "nack"; attempts: number; code: string; reason: string }
+  | { status: "checksum"; attempts: number; expected: string; received: string }
+  | { status: "timeout"; attempts: number }
+  | { status: "cancelled"; attempts: number }
+
+export type SendOptions = {
+  retries?: number
+  timeoutMs?: number
+}
+
+export type TransferOptions = SendOptions & {
+  chunkSize?: number
+  acknowledgeChunks?: boolean
+  pacingMs?: number
+  signal?: AbortSignal
+  // Units are bytes for frames and commands for incremental updates.
+  onProgress?: (sent: number, total: number) => void
+}
+
+export type DeviceClock = {
+  time: Date
+  weekday: number
+}
+
+export class DeviceError extends Error {
+  code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.name = "DeviceError"
+    this.code = code
+  }
+}
+
+const NACK_REASONS: Record<string, string> = {
+  "1": "Malformed frame",
+  "2": "Unsupported format version",
+  "3": "Too many alerts",
+  "4": "Message too long",
+  "5": "Storage write failed",
+}
+
+export function isDeviceReply(line: string): boolean {
+  return line === "ACK" || line.startsWith("ACK,") || line.startsWith("NACK")
+}
+
+const isFlowReply = (line: string) => line.startsWith("RDY") || line.startsWith("NACK")
+
+function throwIfNack(line: string) {
+  const reply = line.startsWith("NACK") ? parseDeviceReply(line) : null
+  if (reply && !reply.ok) throw new DeviceError(reply.code, describeNack(reply.code, reply.detail))
+}
+
+export function parseDeviceReply(line: string): DeviceReply {
+  const [status, code = "", ...detail] = line.split(",")
+  if (status === "ACK") return { ok: true, checksum: code.trim().toUpperCase() || null }
+  return { ok: false, code, detail: detail.join(",") }
+}
+
+export function describeNack(code: string, detail: string): string {
+  const reason = NACK_REASONS[code] ?? `Device error ${code || "(no code)"}`
+  return detail ? `${reason}: ${detail}` : reason
+}
+
+// Writes a command after the reply listener is in place, so a fast reply
+// cannot slip past us.
+async function transact<T>(link: SerialLink, text: string, pendingReply: Promise<T>): Promise<T> {
+  try {
+    await link.write(text)
+  } catch (error) {
+    pendingReply.catch(() => {})
+    throw error
+  }
+  return pendingReply
+}
+
+// Sends a single command line and resolves with the device's ACK or NACK.
+export async function sendCommand(
+  link: SerialLink,
+  command: string,
+  { timeoutMs = 3000, signal }: Pick<TransferOptions, "timeoutMs" | "signal"> = {},
+): Promise<DeviceReply> {
+  return parseDeviceReply(await transact(link, command + "\n", link.waitForLine(isDeviceReply, timeoutMs, signal)))
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length
+
+// Splits text into chunks of at most chunkSize UTF-8 bytes without cutting a character.
+function splitIntoChunks(text: string, chunkSize: number): string[] {
+  const chunks: string[] = []
+  let current = ""
+  let currentBytes = 0
+
+  for (const char of text) {
+    const charBytes = byteLength(char)
+    if (currentBytes + charBytes > chunkSize && current) {
+      chunks.push(current)
+      current = ""
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  if (current) chunks.push(current)
+
+  return chunks
+}
+
+type ChunkOptions = Required<Pick<TransferOptions, "chunkSize" | "acknowledgeChunks" | "pacingMs" | "timeoutMs">> &
+  Pick<TransferOptions, "signal" | "onProgress">
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Writes one frame chunk by chunk and resolves with the device's final reply,
+// or null if the transfer was cancelled between chunks. Cancelling while
+// waiting for a reply rejects with SerialCancelledError.
+async function transferFrame(
+  link: SerialLink,
+  text: string,
+  { chunkSize, acknowledgeChunks, pacingMs, timeoutMs, signal, onProgress }: ChunkOptions,
+): Promise<string | null> {
+  const chunks = splitIntoChunks(text, chunkSize)
+  const totalBytes = byteLength(text)
+  let sentBytes = 0
+
+  if (acknowledgeChunks) {
+    throwIfNack(
+      await transact(link, `@XFER,${totalBytes},${chunkSize}\n`, link.waitForLine(isFlowReply, timeoutMs, signal)),
+    )
+  }
+  onProgress?.(0, totalBytes)
+
+  for (let index = 0; index < chunks.length; index++) {
+    if (signal?.aborted) return null
+    const chunk = chunks[index]
+
+    if (index === chunks.length - 1) {
+      const reply = await transact(link, chunk, link.waitForLine(isDeviceReply, timeoutMs, signal))
+      onProgress?.(totalBytes, totalBytes)
+      return reply
+    }
+
+    if (acknowledgeChunks) {
+      throwIfNack(await transact(link, chunk, link.waitForLine(isFlowReply, timeoutMs, signal)))
+    } else {
+      await link.write(chunk)
+      await delay(pacingMs)
+    }
+    sentBytes += byteLength(chunk)
+    onProgress?.(sentBytes, totalBytes)
+  }
+
+  return null
+}
+
+// Best effort: the device may already have given up on the partial frame.
+const abortTransfer = (link: SerialLink) => link.write("\n@ABORT\n").catch(() => {})
+
+export async function sendConfiguration(
+  link: SerialLink,
+  payload: string,
+  {
+    retries = 3,
+    timeoutMs = 3000,
+    chunkSize = 64,
+    acknowledgeChunks = false,
+    pacingMs = 20,
+    signal,
+    onProgress,
+  }: TransferOptions = {},
+): Promise<SendResult> {
+  const expectedChecksum = getFrameChecksum(payload)
+  let result: SendResult = { status: "timeout", attempts: 0 }
+
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    if (signal?.aborted) return { status: "cancelled", attempts: attempt - 1 }
+
+    try {
+      const line = await transferFrame(link, payload + "\n", {
+        chunkSize,
+        acknowledgeChunks,
+        pacingMs,
+        timeoutMs,
+        signal,
+        onProgress,
+      })
+      if (line === null) {
+        await abortTransfer(link)
+        return { status: "cancelled", attempts: attempt }
+      }
+
+      const reply = parseDeviceReply(line)
+      if (reply.ok) {
+        // Firmware that predates checksums sends a bare ACK; accept it as-is.
+        if (!expectedChecksum || !reply.checksum || reply.checksum === expectedChecksum) {
+          return { status: "ack", attempts: attempt }
+        }
+        result = { status: "checksum", attempts: attempt, expected: expectedChecksum, received: reply.checksum }
+        continue
+      }
+      result = { status: "nack", attempts: attempt, code: reply.code, reason: describeNack(reply.code, reply.detail) }
+    } catch (error) {
+      if (error instanceof DeviceError) {
+        result = { status: "nack", attempts: attempt, code: error.code, reason: error.message }
+      } else if (error instanceof SerialCancelledError) {
+        await abortTransfer(link)
+        return { status: "cancelled", attempts: attempt }
+      } else if (error instanceof SerialTimeoutError) {
+        await abortTransfer(link)
+        result = { status: "timeout", attempts: attempt }
+      } else {
+        throw error
+      }
+    }
+  }
+
+  return result
+}
+
+// Collects lines from a frame header through its trailer. A NACK received
+// before the header rejects with a DeviceError.
+function waitForFrame(link: SerialLink, timeoutMs: number) {
+  return new Promise<string>((resolve, reject) => {
+    const lines: string[] = []
+
+    const timeout = setTimeout(() => {
+      unsubscribe()
+      reject(new SerialTimeoutError(timeoutMs))
+    }, timeoutMs)
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timeout)
+      unsubscribe()
+      settle()
+    }
+
+    const unsubscribe = link.onLine((line) => {
+      if (lines.length === 0) {
+        if (line.startsWith("NACK")) {
+          const reply = parseDeviceReply(line)
+          if (!reply.ok) finish(() => reject(new DeviceError(reply.code, describeNack(reply.code, reply.detail))))
+          return
+        }
+        if (!isFrameHeader(line)) return
+      }
+
+      lines.push(line)
+      if (isFrameTrailer(line)) finish(() => resolve(lines.join("\n")))
+    })
+  })
+}
+
+export async function readConfiguration(
+  link: SerialLink,
+  { timeoutMs = 5000 }: Pick<SendOptions, "timeoutMs"> = {},
+): Promise<FormData> {
+  const frame = await transact(link, "@GET\n", waitForFrame(link, timeoutMs))
+  return toFormData(parseAlertData(frame))
+}
+
+export function parseCapabilitiesReply(line: string): DeviceCapabilities {
+  const [, protocolVersion, maxAlerts, maxMessageLength, charset, bufferSize, alertTypeCodes, lineExtensions] =
+    line.split(",")
+  const capabilities: DeviceCapabilities = {
+    protocolVersion: Number.parseInt(protocolVersion),
+    maxAlerts: Number.parseInt(maxAlerts),
+    maxMessageLength: Number.parseInt(maxMessageLength),
+    charset: charset?.trim() || "ascii",
+  }
+  if (bufferSize && !isNaN(Number.parseInt(bufferSize))) {
+    capabilities.bufferSize = Number.parseInt(bufferSize)
+  }
+  if (alertTypeCodes?.trim()) {
+    capabilities.alertTypeCodes = alertTypeCodes.trim()
+  }
+  if (lineExtensions?.trim()) {
+    capabilities.lineExtensions = lineExtensions.trim()
+  }
+  if (isNaN(capabilities.protocolVersion) || isNaN(capabilities.maxAlerts) || isNaN(capabilities.maxMessageLength)) {
+    throw new Error(`Malformed capabilities reply: ${line}`)
+  }
+  return capabilities
+}
+
+export async function readCapabilities(
+  link: SerialLink,
+  { timeoutMs = 2000 }: Pick<SendOptions, "timeoutMs"> = {},
+): Promise<DeviceCapabilities> {
+  const isCapabilitiesReply = (line: string) => line.startsWith("CAPS,") || line.startsWith("NACK")
+  const reply = await transact(link, "@CAPS\n", link.waitForLine(isCapabilitiesReply, timeoutMs))
+  throwIfNack(reply)
+  return parseCapabilitiesReply(reply)
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0")
+
+export function formatClockCommand(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  return `@TIME,${day},${date.getDay()},${pad(date.getHours())},${pad(date.getMinutes())},${pad(date.getSeconds())}`
+}
+
+export function parseClockReply(line: string): DeviceClock {
+  const [, day = "", weekday, hour, minute, second] = line.split(",")
+  const [year, month, date] = day.split("-").map((part) => Number.parseInt(part))
+  const time = new Date(year, month - 1, date, Number(hour), Number(minute), Number(second))
+  if (isNaN(time.getTime()) || isNaN(Number.parseInt(weekday))) {
+    throw new Error(`Malformed clock reply: ${line}`)
+  }
+  return { time, weekday: Number.parseInt(weekday) }
+}
+
+export async function readDeviceClock(
+  link: SerialLink,
+  { timeoutMs = 3000 }: Pick<SendOptions, "timeoutMs"> = {},
+): Promise<DeviceClock> {
+  const isClockReply = (line: string) => line.startsWith("TIME,") || line.startsWith("NACK")
+  const reply = await transact(link, "@CLOCK\n", link.waitForLine(isClockReply, timeoutMs))
+  throwIfNack(reply)
+  return parseClockReply(reply)
+}
+
+export async function setDeviceClock(
+  link: SerialLink,
+  date: Date,
+  { timeoutMs = 3000 }: Pick<SendOptions, "timeoutMs"> = {},
+): Promise<void> {
+  const reply = await sendCommand(link, formatClockCommand(date), { timeoutMs })
+  if (!reply.ok) throw new DeviceError(reply.code, describeNack(reply.code, reply.detail))
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  findSyncedDevice,
+  loadStoredDevices,
+  markDeviceSynced,
+  replacePrunedOutput,
+  saveStoredDevice,
+  saveStoredDevices,
+} from "@/lib/device-store"
+import { makeAlert, makeConfig } from "@/lib/test-helpers"
+import type { StoredDevice } from "@/lib/types"
+
+const pastOneOff = makeAlert({ kind: "once", date: "2020-01-01" })
+
+const makeStoredDevice = (changes: Partial<StoredDevice> = {}): StoredDevice => ({
+  ...makeConfig([makeAlert(), pastOneOff]),
+  id: "stored1",
+  timestamp: "2026-03-01T08:00:00.000Z",
+  formattedOutput: "full",
+  ...changes,
+})
+
+beforeEach(() => {
+  const items = new Map<string, string>()
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("saveStoredDevice", () => {
+  it("adds new configurations first and replaces edited ones in place", () => {
+    saveStoredDevices([makeStoredDevice()])
+    const added = saveStoredDevice(makeStoredDevice({ id: "stored2" }))
+    expect(added.id).toBe("stored2")
+
+    saveStoredDevice(makeStoredDevice({ formattedOutput: "edited" }))
+    expect(loadStoredDevices().map(({ id, formattedOutput }) => [id, formattedOutput])).toEqual([
+      ["stored2", "full"],
+      ["stored1", "edited"],
+    ])
+  })
+
+  it("saves an edit of a synced configuration as a new entry", () => {
+    const synced = makeStoredDevice({ syncedAt: "2026-03-01T09:00:00.000Z" })
+    saveStoredDevices([synced])
+
+    const saved = saveStoredDevice(makeStoredDevice({ formattedOutput: "edited" }))
+    expect(saved.id).not.toBe(synced.id)
+    expect(loadStoredDevices()).toEqual([saved, synced])
+    expect(findSyncedDevice(42)).toEqual(synced)
+  })
+})
+
+describe("replacePrunedOutput", () => {
+  it("rewrites an unsynced configuration in place", () => {
+    saveStoredDevices([makeStoredDevice()])
+    replacePrunedOutput("full", "pruned")
+    expect(loadStoredDevices()).toEqual([makeStoredDevice({ formattedOutput: "pruned", alerts: [makeAlert()] })])
+  })
+
+  it("keeps a synced configuration as the baseline and adds the pruned one unsynced", () => {
+    const synced = makeStoredDevice({ syncedAt: "2026-03-01T09:00:00.000Z" })
+    saveStoredDevices([synced])
+    replacePrunedOutput("full", "pruned")
+
+    const [pruned, baseline] = loadStoredDevices()
+    expect(baseline).toEqual(synced)
+    expect(pruned).toMatchObject({ formattedOutput: "pruned", alerts: [makeAlert()] })
+    expect(pruned.id).not.toBe(synced.id)
+    expect(pruned).not.toHaveProperty("syncedAt")
+    expect(findSyncedDevice(42)).toEqual(synced)
+
+    markDeviceSynced("pruned")
+    expect(findSyncedDevice(42)?.formattedOutput).toBe("pruned")
+  })
+})
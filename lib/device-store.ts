@@ -0,0 +1,83 @@
+import { isPastOneOff } from "@/lib/schedule"
+import type { StoredDevice } from "@/lib/types"
+
+const STORAGE_KEY = "medicalAlertDevices"
+
+const createStoredId = () => Math.random().toString(36).substr(2, 9)
+
+export function loadStoredDevices(): StoredDevice[] {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return []
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.error("[v0] Error loading devices:", error)
+    return []
+  }
+}
+
+export function saveStoredDevices(devices: StoredDevice[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(devices))
+}
+
+// Saves a processed configuration: one with the id of a stored entry replaces
+// it in place (keeping its position in the list), anything else is added first.
+// An edit of a configuration the device acknowledged is added as a new entry
+// instead, so the acknowledged one stays as the incremental update baseline.
+// Returns the entry as saved.
+export function saveStoredDevice(device: StoredDevice): StoredDevice {
+  const devices = loadStoredDevices()
+  const index = devices.findIndex((stored) => stored.id === device.id)
+  if (index === -1 || devices[index].syncedAt) {
+    const saved = index === -1 ? device : { ...device, id: createStoredId() }
+    saveStoredDevices([saved, ...devices])
+    return saved
+  }
+
+  saveStoredDevices(devices.map((stored, i) => (i === index ? device : stored)))
+  return device
+}
+
+export function clearStoredDevices() {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+// The configuration a device was last confirmed to hold, used as the baseline
+// for incremental updates.
+export function findSyncedDevice(deviceId: number): StoredDevice | undefined {
+  return loadStoredDevices()
+    .filter((device) => device.deviceId === deviceId && device.syncedAt)
+    .sort((a, b) => (b.syncedAt as string).localeCompare(a.syncedAt as string))[0]
+}
+
+// Swaps a stored configuration's payload for one re-processed without its
+// past one-off alerts, so the stored alerts keep matching what is sent. A
+// configuration the device acknowledged stays as the incremental update
+// baseline; the pruned one is added first as a new, unsynced entry.
+export function replacePrunedOutput(previousOutput: string, formattedOutput: string) {
+  const devices = loadStoredDevices()
+  const device = devices.find((stored) => stored.formattedOutput === previousOutput)
+  if (!device) return
+
+  const alerts = device.alerts.filter((alert) => !isPastOneOff(alert))
+  if (device.syncedAt) {
+    const { syncedAt, ...unsynced } = device
+    const pruned = { ...unsynced, id: createStoredId(), timestamp: new Date().toISOString(), alerts, formattedOutput }
+    saveStoredDevices([pruned, ...devices])
+    return
+  }
+
+  device.formattedOutput = formattedOutput
+  device.alerts = alerts
+  saveStoredDevices(devices)
+}
+
+export function markDeviceSynced(formattedOutput: string) {
+  const devices = loadStoredDevices()
+  const device = devices.find((stored) => stored.formattedOutput === formattedOutput)
+  if (!device) return
+
+  device.syncedAt = new Date().toISOString()
+  saveStoredDevices(devices)
+}
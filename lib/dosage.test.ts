@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { createDosage, formatDose, renderDosageMessage, validateDosage, withDosageMessage } from "@/lib/dosage"
+import { makeAlert } from "@/lib/test-helpers"
+import type { Dosage } from "@/lib/types"
+
+const metformin: Dosage = {
+  drug: "Metformin",
+  strength: "500 mg",
+  amount: "2",
+  unit: "tablet",
+  route: "by mouth",
+  instructions: "with food",
+}
+
+describe("formatDose", () => {
+  it("pluralizes countable units only", () => {
+    expect(formatDose({ amount: "2", unit: "tablet" })).toBe("2 tablets")
+    expect(formatDose({ amount: "0.5", unit: "tablet" })).toBe("0.5 tablet")
+    expect(formatDose({ amount: "5", unit: "ml" })).toBe("5 ml")
+    expect(formatDose({ amount: " ", unit: "tablet" })).toBe("")
+  })
+})
+
+describe("renderDosageMessage", () => {
+  it("fills the default template", () => {
+    expect(renderDosageMessage(metformin)).toBe("Take 2 tablets Metformin 500 mg by mouth, with food")
+  })
+
+  it("drops empty fields and the commas they leave behind", () => {
+    expect(renderDosageMessage({ ...metformin, strength: "", instructions: " " })).toBe(
+      "Take 2 tablets Metformin by mouth",
+    )
+    expect(renderDosageMessage({ ...metformin, instructions: "" }, "{drug}, {instructions}, {route}")).toBe(
+      "Metformin, by mouth",
+    )
+  })
+
+  it("keeps unknown placeholders", () => {
+    expect(renderDosageMessage(metformin, "{drug} {colour}")).toBe("Metformin {colour}")
+  })
+})
+
+describe("withDosageMessage", () => {
+  it("replaces a Medicine alert's message with its rendered dosage", () => {
+    const alert = makeAlert({ message: "stale", dosage: metformin })
+    expect(withDosageMessage(alert).message).toBe("Take 2 tablets Metformin 500 mg by mouth, with food")
+  })
+
+  it("leaves other alerts alone", () => {
+    const reminder = makeAlert({ type: "Reminder", message: "Walk", dosage: metformin })
+    expect(withDosageMessage(reminder)).toBe(reminder)
+    const undosed = makeAlert()
+    expect(withDosageMessage(undosed)).toBe(undosed)
+  })
+})
+
+describe("validateDosage", () => {
+  it("requires a drug and a positive amount", () => {
+    expect(validateDosage(metformin)).toEqual([])
+    expect(validateDosage({ ...createDosage(), amount: "0" })).toEqual([
+      "Enter the name of the drug.",
+      "Dose amount must be a number greater than zero.",
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import type { Alert, Dosage } from "@/lib/types"
+
+// Units a dose is counted in. Countable units take a plural "s"; measures do not.
+export const DOSAGE_UNITS = ["tablet", "capsule", "ml", "mg", "drop", "puff", "sachet", "patch", "unit"]
+
+const MEASURE_UNITS = ["ml", "mg"]
+
+export const DOSAGE_ROUTES = [
+  "by mouth",
+  "under the tongue",
+  "inhaled",
+  "on the skin",
+  "in the eye",
+  "in the ear",
+  "by injection",
+]
+
+// Suggestions only; instructions are free text.
+export const DOSAGE_INSTRUCTIONS = [
+  "with food",
+  "before food",
+  "on an empty stomach",
+  "with a full glass of water",
+  "before bed",
+]
+
+// Placeholders are replaced by the matching dosage field. Empty fields are
+// dropped together with any comma they leave dangling.
+export const DEFAULT_DOSAGE_TEMPLATE = "Take {dose} {drug} {strength} {route}, {instructions}"
+
+export function createDosage(drug = ""): Dosage {
+  return { drug, strength: "", amount: "1", unit: "tablet", route: "by mouth", instructions: "" }
+}
+
+// "2 tablets", "0.5 tablet", "5 ml".
+export function formatDose(dosage: Pick<Dosage, "amount" | "unit">): string {
+  const amount = dosage.amount.trim()
+  const countable = !MEASURE_UNITS.includes(dosage.unit)
+  const unit = countable && Number(amount) > 1 ? `${dosage.unit}s` : dosage.unit
+  return amount ? `${amount} ${unit}` : ""
+}
+
+// The device message for a structured dosage, e.g.
+// "Take 2 tablets Metformin 500 mg by mouth, with food".
+export function renderDosageMessage(dosage: Dosage, template = DEFAULT_DOSAGE_TEMPLATE): string {
+  const values: Record<string, string> = {
+    dose: formatDose(dosage),
+    drug: dosage.drug.trim(),
+    strength: dosage.strength.trim(),
+    route: dosage.route.trim(),
+    instructions: dosage.instructions.trim(),
+  }
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+    .replace(/\s+/g, " ")
+    .replace(/\s*,\s*(?=,|$)/g, "")
+    .replace(/\s+,/g, ",")
+    .trim()
+}
+
+// A Medicine alert's message always comes from its dosage; alerts loaded from
+// storage or posted to the API are brought back in line with it here.
+export const withDosageMessage = <T extends Alert>(alert: T): T =>
+  alert.type === "Medicine" && alert.dosage ? { ...alert, message: renderDosageMessage(alert.dosage) } : alert
+
+export function validateDosage(dosage: Dosage): string[] {
+  const problems: string[] = []
+  const amount = Number(dosage.amount)
+
+  if (!dosage.drug.trim()) problems.push("Enter the name of the drug.")
+  if (!dosage.amount.trim() || !Number.isFinite(amount) || amount <= 0) {
+    problems.push("Dose amount must be a number greater than zero.")
+  }
+  return problems
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { buildFillSheet } from "@/lib/fill-sheet"
+import { makeAlert } from "@/lib/test-helpers"
+import type { Alert, Dosage } from "@/lib/types"
+
+// Monday 16 March 2026.
+const weekStart = new Date(2026, 2, 16)
+
+const metformin: Dosage = {
+  drug: "Metformin",
+  strength: "500 mg",
+  amount: "2",
+  unit: "tablet",
+  route: "by mouth",
+  instructions: "with food",
+}
+
+const rowsOf = (alerts: Alert[]) =>
+  buildFillSheet(alerts, weekStart).map(({ date, time, doses }) => [
+    `${date} ${time.hour}:${time.minute}`,
+    doses.map((dose) => dose.alertIndex),
+  ])
+
+describe("buildFillSheet", () => {
+  it("lists a week of medicine doses by date and time", () => {
+    const alerts = [
+      makeAlert({ selectedDays: ["1", "3"], hour: "20" }),
+      makeAlert({ type: "Reminder", selectedDays: ["1"] }),
+      makeAlert({ selectedDays: ["1"] }),
+      makeAlert({ selectedDays: ["1"], hour: "20" }),
+    ]
+    expect(rowsOf(alerts)).toEqual([
+      ["2026-03-16 08:00", [2]],
+      ["2026-03-16 20:00", [0, 3]],
+      ["2026-03-18 20:00", [0]],
+    ])
+  })
+
+  it("describes each dose from its dosage and compartment", () => {
+    const alert = makeAlert({ dosage: metformin, compartments: { "1@08:00": "5" } })
+    expect(buildFillSheet([alert, makeAlert({ selectedDays: ["2"] })], weekStart).map((row) => row.doses)).toEqual([
+      [
+        {
+          alertIndex: 0,
+          medication: "Metformin",
+          strength: "500 mg",
+          dose: "2 tablets",
+          route: "by mouth",
+          instructions: "with food",
+          compartment: 5,
+        },
+      ],
+      [{ alertIndex: 1, medication: "Take pills", strength: "", dose: "", route: "", instructions: "" }],
+    ])
+  })
+
+  it("leaves out dates outside a course and one-offs on other weeks", () => {
+    const alerts = [
+      makeAlert({ isEveryday: true, startDate: "2026-03-20", endDate: "2026-03-21" }),
+      makeAlert({ kind: "once", date: "2026-03-17", hour: "12" }),
+      makeAlert({ kind: "once", date: "2026-03-24", hour: "12" }),
+    ]
+    expect(rowsOf(alerts)).toEqual([
+      ["2026-03-17 12:00", [1]],
+      ["2026-03-20 08:00", [0]],
+      ["2026-03-21 08:00", [0]],
+    ])
+  })
+})
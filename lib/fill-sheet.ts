@@ -0,0 +1,65 @@
+import { getMedicineOccurrences } from "@/lib/compartments"
+import { formatDose } from "@/lib/dosage"
+import { formatTime, toDateString } from "@/lib/schedule"
+import type { Alert, AlertTime } from "@/lib/types"
+
+export type FillSheetDose = {
+  alertIndex: number
+  medication: string
+  strength: string
+  // "2 tablets"; empty for medicine alerts without structured dosage.
+  dose: string
+  route: string
+  instructions: string
+  compartment?: number
+}
+
+export type FillSheetRow = {
+  // Calendar date, as "yyyy-mm-dd".
+  date: string
+  time: AlertTime
+  doses: FillSheetDose[]
+}
+
+export const FILL_SHEET_DAYS = 7
+
+// Whether a course of treatment covers the date; alerts without dates always do.
+const isInCourse = (alert: Alert, date: string) =>
+  (!alert.startDate || date >= alert.startDate) && (!alert.endDate || date <= alert.endDate)
+
+// The medicine doses due over the week starting on weekStart, one row per
+// date and time of day, in order. Courses that have not started or have ended
+// on a date leave it out, as the device would.
+export function buildFillSheet(alerts: Alert[], weekStart: Date = new Date()): FillSheetRow[] {
+  const occurrences = getMedicineOccurrences(alerts)
+  const rows: FillSheetRow[] = []
+
+  for (let offset = 0; offset < FILL_SHEET_DAYS; offset++) {
+    const day = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + offset)
+    const date = toDateString(day)
+    const byTime = new Map<string, FillSheetRow>()
+
+    occurrences
+      .filter((occurrence) => occurrence.day === date || occurrence.day === day.getDay().toString())
+      .filter((occurrence) => isInCourse(alerts[occurrence.alertIndex], date))
+      .forEach((occurrence) => {
+        const alert = alerts[occurrence.alertIndex]
+        const key = formatTime(occurrence.time)
+        const row = byTime.get(key) ?? { date, time: occurrence.time, doses: [] }
+        row.doses.push({
+          alertIndex: occurrence.alertIndex,
+          medication: alert.dosage?.drug || alert.message,
+          strength: alert.dosage?.strength ?? "",
+          dose: alert.dosage ? formatDose(alert.dosage) : "",
+          route: alert.dosage?.route ?? "",
+          instructions: alert.dosage?.instructions ?? "",
+          ...(occurrence.compartment && { compartment: occurrence.compartment }),
+        })
+        byTime.set(key, row)
+      })
+
+    rows.push(...Array.from(byTime.values()).sort((a, b) => formatTime(a.time).localeCompare(formatTime(b.time))))
+  }
+
+  return rows
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { createDosage } from "@/lib/dosage"
+import { describeStockForecast, forecastStock, getMedicationName, needsRefill } from "@/lib/inventory"
+import { makeAlert } from "@/lib/test-helpers"
+import type { Alert } from "@/lib/types"
+
+// An everyday two-tablet Metformin dose.
+const metformin = (changes: Partial<Alert> = {}) =>
+  makeAlert({
+    message: "Take Metformin",
+    isEveryday: true,
+    selectedDays: [],
+    dosage: { ...createDosage("Metformin"), amount: "2" },
+    ...changes,
+  })
+
+// Sunday 2026-03-15.
+const TODAY = new Date(2026, 2, 15)
+
+describe("getMedicationName", () => {
+  it("prefers the dosage's drug over the message", () => {
+    expect(getMedicationName(metformin())).toBe("Metformin")
+    expect(getMedicationName(metformin({ dosage: undefined, message: " Aspirin " }))).toBe("Aspirin")
+  })
+})
+
+describe("forecastStock", () => {
+  it("ignores medications without a stock count", () => {
+    expect(forecastStock([metformin()], TODAY)).toEqual([])
+  })
+
+  it("subtracts doses taken since the count and finds the run-out date", () => {
+    // Counted two days ago: 20 - 2 days × 2 tablets = 16, enough for 8 more days.
+    const alerts = [metformin({ stockCount: "20", stockCountedOn: "2026-03-13" })]
+    expect(forecastStock(alerts, TODAY)).toEqual([
+      {
+        medication: "Metformin",
+        alertIndexes: [0],
+        remaining: 16,
+        runOutDate: "2026-03-23",
+        daysLeft: 8,
+        status: "ok",
+      },
+    ])
+  })
+
+  it("pools alerts for the same drug and uses the latest count", () => {
+    const alerts = [
+      metformin({ stockCount: "100", stockCountedOn: "2026-03-01" }),
+      metformin({ hour: "20", stockCount: "10", stockCountedOn: "2026-03-15" }),
+      metformin({ type: "Reminder", dosage: undefined, message: "Walk" }),
+    ]
+    const [forecast] = forecastStock(alerts, TODAY)
+    expect(forecast).toMatchObject({ alertIndexes: [0, 1], remaining: 10, daysLeft: 2, status: "low" })
+    expect(needsRefill(forecast)).toBe(true)
+  })
+
+  it("only counts doses on the alert's days and within its course", () => {
+    const alerts = [
+      metformin({
+        isEveryday: false,
+        selectedDays: ["1"],
+        endDate: "2026-03-31",
+        stockCount: "4",
+        stockCountedOn: "2026-03-15",
+      }),
+    ]
+    // The course has three Mondays left (16, 23 and 30 March) at two tablets each.
+    expect(forecastStock(alerts, TODAY)[0]).toMatchObject({ remaining: 4, runOutDate: "2026-03-30", status: "ok" })
+    expect(forecastStock([{ ...alerts[0], stockCount: "6" }], TODAY)[0].runOutDate).toBeUndefined()
+  })
+
+  it("reports stock that cannot cover today's doses", () => {
+    const alerts = [metformin({ stockCount: "1", stockCountedOn: "2026-03-15" })]
+    expect(forecastStock(alerts, TODAY)[0]).toMatchObject({ daysLeft: 0, status: "out" })
+  })
+})
+
+describe("describeStockForecast", () => {
+  it("summarizes what is left", () => {
+    const forecast = forecastStock([metformin({ stockCount: "1", stockCountedOn: "2026-03-15" })], TODAY)[0]
+    expect(describeStockForecast(forecast)).toBe("1 left, not enough for today's doses")
+    expect(describeStockForecast({ ...forecast, remaining: 2.25, runOutDate: undefined })).toBe(
+      "2.3 left, no refill needed",
+    )
+  })
+})
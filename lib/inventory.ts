@@ -0,0 +1,113 @@
+import { countOccurrencesByDay, isDateString, parseDateString, toDateString } from "@/lib/schedule"
+import type { Alert } from "@/lib/types"
+
+// Medications running out within this many days get a refill warning.
+export const REFILL_WARNING_DAYS = 7
+
+// How far ahead run-out dates are searched for.
+const FORECAST_HORIZON_DAYS = 365
+
+export type StockStatus = "ok" | "low" | "out"
+
+export type StockForecast = {
+  medication: string
+  // Every Medicine alert giving this medication; all of them draw on its stock.
+  alertIndexes: number[]
+  // Units left today, after every dose due since the stock was counted.
+  remaining: number
+  // First date the stock cannot cover that day's doses; unset when it lasts
+  // past the end of every course (or the forecast horizon).
+  runOutDate?: string
+  daysLeft?: number
+  status: StockStatus
+}
+
+// Alerts for the same drug share one stock, whichever alert it was entered on.
+export const getMedicationName = (alert: Alert) => (alert.dosage?.drug || alert.message).trim()
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// Units one alert uses on a date: its expanded doses that day, counted the
+// same way as the device's weekly slots, times the dose amount.
+function getDailyUse(alert: Alert): (date: Date) => number {
+  const amount = Number(alert.dosage?.amount) || 1
+  const byDay = countOccurrencesByDay(alert)
+
+  return (date) => {
+    const day = toDateString(date)
+    if ((alert.startDate && day < alert.startDate) || (alert.endDate && day > alert.endDate)) return 0
+    return (byDay.get(alert.kind === "once" ? day : date.getDay().toString()) ?? 0) * amount
+  }
+}
+
+// Whether any of the alerts can still fire on or after the date.
+const hasFutureDoses = (alerts: Alert[], date: string) =>
+  alerts.some((alert) => (alert.kind === "once" ? (alert.date ?? "") >= date : !alert.endDate || alert.endDate >= date))
+
+// Forecasts every medication that has a stock count. The most recent count
+// wins when several alerts for the same drug carry one.
+export function forecastStock(alerts: Alert[], today: Date = new Date()): StockForecast[] {
+  const groups = new Map<string, number[]>()
+  alerts.forEach((alert, index) => {
+    if (alert.type !== "Medicine") return
+    const key = getMedicationName(alert).toLowerCase()
+    groups.set(key, [...(groups.get(key) ?? []), index])
+  })
+
+  // Midnight today, so days are compared whole.
+  const start = addDays(today, 0)
+  return Array.from(groups.values()).flatMap((alertIndexes) => {
+    const counted = alertIndexes
+      .map((index) => alerts[index])
+      .filter((alert) => alert.stockCount && isDateString(alert.stockCountedOn ?? ""))
+      .sort((a, b) => (b.stockCountedOn ?? "").localeCompare(a.stockCountedOn ?? ""))[0]
+    const countedOn = parseDateString(counted?.stockCountedOn)
+    if (!counted || !countedOn) return []
+
+    const group = alertIndexes.map((index) => alerts[index])
+    const uses = group.map(getDailyUse)
+    const useOn = (date: Date) => uses.reduce((sum, use) => sum + use(date), 0)
+
+    let remaining = Number(counted.stockCount)
+    for (let date = countedOn; date < start; date = addDays(date, 1)) remaining -= useOn(date)
+    remaining = Math.max(remaining, 0)
+
+    const forecast: StockForecast = {
+      medication: getMedicationName(counted),
+      alertIndexes,
+      remaining,
+      status: "ok",
+    }
+
+    let left = remaining
+    for (let offset = 0; offset < FORECAST_HORIZON_DAYS; offset++) {
+      const date = addDays(start, offset)
+      if (!hasFutureDoses(group, toDateString(date))) break
+      const need = useOn(date)
+      if (need > left) {
+        forecast.runOutDate = toDateString(date)
+        forecast.daysLeft = offset
+        forecast.status = offset === 0 ? "out" : offset <= REFILL_WARNING_DAYS ? "low" : "ok"
+        break
+      }
+      left -= need
+    }
+
+    return [forecast]
+  })
+}
+
+export const needsRefill = (forecast: StockForecast) => forecast.status !== "ok"
+
+export function describeStockForecast(forecast: StockForecast): string {
+  const left = `${Number(forecast.remaining.toFixed(1))} left`
+  if (!forecast.runOutDate) return `${left}, no refill needed`
+  if (forecast.status === "out") return `${left}, not enough for today's doses`
+
+  const date = parseDateString(forecast.runOutDate)?.toLocaleDateString([], {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  })
+  return `${left}, runs out ${date} (${forecast.daysLeft} day${forecast.daysLeft === 1 ? "" : "s"})`
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { lintSchedule } from "@/lib/schedule-lint"
+import { makeAlert } from "@/lib/test-helpers"
+import type { Alert } from "@/lib/types"
+
+// Reminders by default, so only the medicine test triggers night-medicine.
+const reminder = (changes: Partial<Alert> = {}) =>
+  makeAlert({ type: "Reminder", message: "Check messages", ...changes })
+
+const codes = (alerts: Alert[]) => lintSchedule(alerts).map((warning) => [warning.code, warning.alertIndexes])
+
+describe("lintSchedule", () => {
+  it("reports alerts firing at the same time", () => {
+    expect(codes([reminder({ message: "A" }), reminder({ message: "B" })])).toEqual([["collision", [0, 1]]])
+  })
+
+  it("reports alerts within the near-collision window", () => {
+    const alerts = [reminder({ message: "A" }), reminder({ message: "B", minute: "10" })]
+    expect(codes(alerts)).toEqual([["near-collision", [0, 1]]])
+    expect(lintSchedule(alerts, { nearCollisionMinutes: 5 })).toEqual([])
+  })
+
+  it("compares times across midnight", () => {
+    const alerts = [
+      reminder({ message: "A", hour: "23", minute: "55" }),
+      reminder({ message: "B", selectedDays: ["2"], hour: "00", minute: "05" }),
+    ]
+    expect(lintSchedule(alerts)[0].message).toBe(
+      "Alerts 1 and 2 fire within 15 minutes of each other: Mon 23:55 / Tue 00:05.",
+    )
+  })
+
+  it("compares an alert's own times", () => {
+    const alerts = [reminder({ extraTimes: [{ hour: "08", minute: "10" }] })]
+    expect(codes(alerts)).toEqual([["near-collision", [0]]])
+  })
+
+  it("skips alerts whose courses do not overlap", () => {
+    const alerts = [
+      reminder({ message: "A", endDate: "2026-01-31" }),
+      reminder({ message: "B", startDate: "2026-02-01" }),
+    ]
+    expect(lintSchedule(alerts)).toEqual([])
+  })
+
+  it("only meets one-off alerts on their dates", () => {
+    // 2026-03-16 is a Monday, 2026-03-17 a Tuesday.
+    const monday = reminder({ kind: "once", date: "2026-03-16", message: "A" })
+    const tuesday = reminder({ kind: "once", date: "2026-03-17", message: "B" })
+    expect(codes([monday, reminder({ message: "C" })])).toEqual([["collision", [0, 1]]])
+    expect(lintSchedule([monday, tuesday])).toEqual([])
+  })
+
+  it("reports duplicate messages", () => {
+    const alerts = [reminder(), reminder({ selectedDays: ["3"], message: " check MESSAGES " })]
+    expect(codes(alerts)).toEqual([["duplicate-message", [0, 1]]])
+  })
+
+  it("reports medicine given at night", () => {
+    const alerts = [reminder({ type: "Medicine", hour: "02" }), reminder({ message: "B", hour: "03" })]
+    expect(codes(alerts)).toEqual([["night-medicine", [0]]])
+  })
+
+  it("skips invalid alerts", () => {
+    expect(lintSchedule([reminder({ message: "A" }), reminder({ message: "" })])).toEqual([])
+  })
+})
@@ -0,0 +1,169 @@
+import { formatDay, formatTime, getAlertOccurrences, isDateString, parseDateString, validateAlert } from "@/lib/schedule"
+import type { Alert } from "@/lib/types"
+
+export type ScheduleWarningCode = "collision" | "near-collision" | "duplicate-message" | "night-medicine"
+
+export type ScheduleWarning = {
+  code: ScheduleWarningCode
+  // Indexes of the alerts involved; the warning is shown on each of them.
+  alertIndexes: number[]
+  message: string
+}
+
+export type ScheduleLintOptions = {
+  // Alerts this many minutes apart or closer on the same day count as near-collisions.
+  nearCollisionMinutes?: number
+  // Medicine is unusual from nightStartHour until nightEndHour (exclusive).
+  nightStartHour?: number
+  nightEndHour?: number
+}
+
+export const DEFAULT_NEAR_COLLISION_MINUTES = 15
+const DEFAULT_NIGHT_START_HOUR = 23
+const DEFAULT_NIGHT_END_HOUR = 6
+
+type Slot = {
+  weekday: number
+  // Only set for one-off alerts.
+  date?: string
+  minutes: number
+  dayLabel: string
+  time: string
+}
+
+const DAY_MINUTES = 24 * 60
+const WEEK_MINUTES = 7 * DAY_MINUTES
+
+function getSlots(alert: Alert): Slot[] {
+  return getAlertOccurrences(alert).flatMap(({ time, days }) =>
+    days.map((day) => ({
+      weekday: isDateString(day) ? (parseDateString(day)?.getDay() ?? -1) : Number.parseInt(day),
+      ...(isDateString(day) && { date: day }),
+      minutes: Number.parseInt(time.hour) * 60 + Number.parseInt(time.minute),
+      dayLabel: formatDay(day),
+      time: formatTime(time),
+    })),
+  )
+}
+
+// Minutes between two slots, across midnight too. Two one-offs are compared
+// by their actual dates; otherwise slots recur weekly, so the distance wraps
+// around the week (Sat 23:58 is 4 minutes from Sun 00:02).
+function getGap(a: Slot, b: Slot): number {
+  if (a.date && b.date) {
+    const days = ((parseDateString(b.date)?.getTime() ?? 0) - (parseDateString(a.date)?.getTime() ?? 0)) / 86400000
+    return Math.abs(Math.round(days) * DAY_MINUTES + b.minutes - a.minutes)
+  }
+  const distance = Math.abs(a.weekday * DAY_MINUTES + a.minutes - (b.weekday * DAY_MINUTES + b.minutes)) % WEEK_MINUTES
+  return Math.min(distance, WEEK_MINUTES - distance)
+}
+
+const describePair = (a: Slot, b: Slot) =>
+  a.dayLabel === b.dayLabel ? `${a.dayLabel} ${a.time} / ${b.time}` : `${a.dayLabel} ${a.time} / ${b.dayLabel} ${b.time}`
+
+// The dates an alert can fire between, inclusive; open ends are empty strings
+// and "\uffff", which sort before and after every date.
+const getActiveRange = (alert: Alert): [string, string] =>
+  alert.kind === "once" ? [alert.date ?? "", alert.date ?? ""] : [alert.startDate ?? "", alert.endDate || "\uffff"]
+
+// Alerts whose courses (or one-off dates) never overlap cannot fire together.
+const canOverlap = (a: Alert, b: Alert) => {
+  const [startA, endA] = getActiveRange(a)
+  const [startB, endB] = getActiveRange(b)
+  return startA <= endB && startB <= endA
+}
+
+const describeAlerts = (indexes: number[]) => `Alerts ${indexes.map((index) => index + 1).join(" and ")}`
+
+const summarize = (labels: string[]) =>
+  labels.length > 3 ? `${labels.slice(0, 3).join(", ")} and ${labels.length - 3} more` : labels.join(", ")
+
+// Checks a schedule for alerts that would fire together, repeat each other or
+// give medicine in the middle of the night, and for alerts whose own times are
+// too close together. Alerts that fail validateAlert are skipped; those
+// problems are reported separately. Warnings never block sending.
+export function lintSchedule(alerts: Alert[], options: ScheduleLintOptions = {}): ScheduleWarning[] {
+  const window = options.nearCollisionMinutes ?? DEFAULT_NEAR_COLLISION_MINUTES
+  const nightStart = (options.nightStartHour ?? DEFAULT_NIGHT_START_HOUR) * 60
+  const nightEnd = (options.nightEndHour ?? DEFAULT_NIGHT_END_HOUR) * 60
+  const isNight = (minutes: number) =>
+    nightStart > nightEnd ? minutes >= nightStart || minutes < nightEnd : minutes >= nightStart && minutes < nightEnd
+
+  const valid = alerts.map((alert, index) => ({ alert, index })).filter(({ alert }) => validateAlert(alert).length === 0)
+  const slots = valid.map(({ alert }) => getSlots(alert))
+  const warnings: ScheduleWarning[] = []
+
+  valid.forEach(({ index }, position) => {
+    const own = slots[position]
+    const nearCollisions: string[] = []
+    own.forEach((first, i) => {
+      own.slice(i + 1).forEach((second) => {
+        const gap = getGap(first, second)
+        if (gap > 0 && gap <= window) nearCollisions.push(describePair(first, second))
+      })
+    })
+    if (nearCollisions.length > 0) {
+      warnings.push({
+        code: "near-collision",
+        alertIndexes: [index],
+        message: `Alert ${index + 1} fires again within ${window} minutes: ${summarize(nearCollisions)}.`,
+      })
+    }
+  })
+
+  for (let a = 0; a < valid.length; a++) {
+    for (let b = a + 1; b < valid.length; b++) {
+      if (!canOverlap(valid[a].alert, valid[b].alert)) continue
+
+      const collisions: string[] = []
+      const nearCollisions: string[] = []
+
+      slots[a].forEach((first) => {
+        slots[b].forEach((second) => {
+          const gap = getGap(first, second)
+          if (gap === 0) collisions.push(`${first.dayLabel} ${first.time}`)
+          else if (gap <= window) nearCollisions.push(describePair(first, second))
+        })
+      })
+
+      const alertIndexes = [valid[a].index, valid[b].index]
+      if (collisions.length > 0) {
+        warnings.push({
+          code: "collision",
+          alertIndexes,
+          message: `${describeAlerts(alertIndexes)} fire at the same time: ${summarize(collisions)}.`,
+        })
+      }
+      if (nearCollisions.length > 0) {
+        warnings.push({
+          code: "near-collision",
+          alertIndexes,
+          message: `${describeAlerts(alertIndexes)} fire within ${window} minutes of each other: ${summarize(nearCollisions)}.`,
+        })
+      }
+
+      const firstMessage = valid[a].alert.message.trim().toLowerCase()
+      if (firstMessage === valid[b].alert.message.trim().toLowerCase()) {
+        warnings.push({
+          code: "duplicate-message",
+          alertIndexes,
+          message: `${describeAlerts(alertIndexes)} have the same message; consider merging them into one alert.`,
+        })
+      }
+    }
+  }
+
+  valid.forEach(({ alert, index }, position) => {
+    if (alert.type !== "Medicine") return
+    const nightTimes = Array.from(new Set(slots[position].filter((slot) => isNight(slot.minutes)).map((slot) => slot.time)))
+    if (nightTimes.length > 0) {
+      warnings.push({
+        code: "night-medicine",
+        alertIndexes: [index],
+        message: `Alert ${index + 1} gives medicine at ${nightTimes.join(", ")}, an unusual time of night.`,
+      })
+    }
+  })
+
+  return warnings
+}
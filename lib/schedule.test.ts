@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest"
+import {
+  countOccurrencesByDay,
+  describeAlertFollowUp,
+  describeAlertSchedule,
+  formatTime,
+  getAlertOccurrences,
+  getAlertTimes,
+  isPastOneOff,
+  validateAlert,
+} from "@/lib/schedule"
+import { makeAlert } from "@/lib/test-helpers"
+import type { Alert } from "@/lib/types"
+
+const times = (alert: Alert, day?: string) => getAlertTimes(alert, day).map(formatTime)
+
+describe("getAlertTimes", () => {
+  it("sorts fixed times with their extra times", () => {
+    expect(times(makeAlert({ extraTimes: [{ hour: "20", minute: "00" }, { hour: "12", minute: "30" }] }))).toEqual([
+      "08:00",
+      "12:30",
+      "20:00",
+    ])
+  })
+
+  it("applies a day's override in place of hour:minute", () => {
+    const alert = makeAlert({ selectedDays: ["1", "3"], dayTimes: { "3": { hour: "10", minute: "15" } } })
+    expect(times(alert, "1")).toEqual(["08:00"])
+    expect(times(alert, "3")).toEqual(["10:15"])
+  })
+
+  it("repeats interval alerts until the end time", () => {
+    const alert = makeAlert({ kind: "interval", intervalHours: "4", endHour: "20", endMinute: "00" })
+    expect(times(alert)).toEqual(["08:00", "12:00", "16:00", "20:00"])
+  })
+
+  it("repeats interval alerts around the clock without an end time", () => {
+    const alert = makeAlert({ kind: "interval", intervalHours: "8", hour: "06" })
+    expect(times(alert)).toEqual(["06:00", "14:00", "22:00"])
+  })
+})
+
+describe("getAlertOccurrences", () => {
+  it("groups days by time of day", () => {
+    const alert = makeAlert({ selectedDays: ["1", "3"], dayTimes: { "3": { hour: "10", minute: "00" } } })
+    expect(getAlertOccurrences(alert)).toEqual([
+      { time: { hour: "08", minute: "00" }, days: ["1"] },
+      { time: { hour: "10", minute: "00" }, days: ["3"] },
+    ])
+  })
+
+  it("gives one-off alerts their date as the only day", () => {
+    const alert = makeAlert({ kind: "once", date: "2026-03-14" })
+    expect(getAlertOccurrences(alert)).toEqual([{ time: { hour: "08", minute: "00" }, days: ["2026-03-14"] }])
+  })
+})
+
+describe("countOccurrencesByDay", () => {
+  it("counts each day's firings", () => {
+    const alert = makeAlert({ isEveryday: true, extraTimes: [{ hour: "20", minute: "00" }] })
+    const counts = countOccurrencesByDay(alert)
+    expect(counts.size).toBe(7)
+    expect(counts.get("0")).toBe(2)
+  })
+
+  it("keys one-offs by their date", () => {
+    expect(countOccurrencesByDay(makeAlert({ kind: "once", date: "2026-03-14" }))).toEqual(new Map([["2026-03-14", 1]]))
+  })
+})
+
+describe("describeAlertSchedule", () => {
+  it("lists per-day overrides after the usual time", () => {
+    const alert = makeAlert({ selectedDays: ["1", "3", "5"], dayTimes: { "3": { hour: "10", minute: "15" } } })
+    expect(describeAlertSchedule(alert)).toBe("08:00; Wed 10:15")
+  })
+
+  it("gives a one-off alert's date", () => {
+    expect(describeAlertSchedule(makeAlert({ kind: "once", date: "2026-03-14" }))).toMatch(/ at 08:00$/)
+  })
+})
+
+describe("describeAlertFollowUp", () => {
+  it("summarizes snooze, repeats and escalation", () => {
+    expect(describeAlertFollowUp({ snoozeMinutes: "10", maxRepeats: "3", escalateAfterMinutes: "30" })).toBe(
+      "Repeats every 10 min, up to 3× · Escalates after 30 min",
+    )
+    expect(describeAlertFollowUp({})).toBeNull()
+  })
+})
+
+describe("isPastOneOff", () => {
+  const now = new Date(2026, 2, 14, 12, 0)
+
+  it("is true once the last time on the date has gone by", () => {
+    expect(isPastOneOff(makeAlert({ kind: "once", date: "2026-03-14" }), now)).toBe(true)
+    expect(isPastOneOff(makeAlert({ kind: "once", date: "2026-03-13", hour: "23" }), now)).toBe(true)
+  })
+
+  it("is false for later times and recurring alerts", () => {
+    expect(isPastOneOff(makeAlert({ kind: "once", date: "2026-03-14", hour: "18" }), now)).toBe(false)
+    expect(isPastOneOff(makeAlert({ endDate: "2026-01-01" }), now)).toBe(false)
+  })
+})
+
+describe("validateAlert", () => {
+  it("accepts a complete alert", () => {
+    expect(validateAlert(makeAlert())).toEqual([])
+  })
+
+  it("reports missing messages, days and bad times", () => {
+    expect(validateAlert(makeAlert({ message: " ", selectedDays: [], hour: "24" }))).toEqual([
+      "Message is required.",
+      "Select at least one day.",
+      "Time is not a valid hour and minute.",
+    ])
+  })
+
+  it("rejects repeated and invalid extra times", () => {
+    expect(validateAlert(makeAlert({ extraTimes: [{ hour: "08", minute: "00" }] }))).toEqual([
+      "The same time of day is listed more than once.",
+    ])
+    expect(validateAlert(makeAlert({ extraTimes: [{ hour: "", minute: "00" }] }))).toEqual([
+      "Every additional time needs a valid hour and minute.",
+    ])
+  })
+
+  it("requires a one-off alert's date", () => {
+    expect(validateAlert(makeAlert({ kind: "once", selectedDays: [] }))).toEqual([
+      "Pick the date of the one-off alert.",
+    ])
+  })
+
+  it("rejects an invalid per-day time", () => {
+    expect(validateAlert(makeAlert({ dayTimes: { "1": { hour: "25", minute: "00" } } }))).toEqual([
+      "Every per-day time needs a valid hour and minute.",
+    ])
+  })
+
+  it("checks a Medicine alert's dosage", () => {
+    const dosage = { drug: "", strength: "", amount: "1", unit: "tablet", route: "by mouth", instructions: "" }
+    expect(validateAlert(makeAlert({ dosage }))).toEqual(["Enter the name of the drug."])
+  })
+
+  it("checks follow-up settings", () => {
+    expect(validateAlert(makeAlert({ snoozeMinutes: "0", escalateAfterMinutes: "300" }))).toEqual([
+      "Snooze must be between 1 and 60 minutes.",
+      "Escalation must be between 1 and 240 minutes.",
+    ])
+    expect(validateAlert(makeAlert({ maxRepeats: "3" }))).toEqual(["Set a snooze interval for the alert to repeat."])
+  })
+
+  it("treats an emptied end hour as an invalid window", () => {
+    const alert = makeAlert({ kind: "interval", intervalHours: "5", endHour: "" })
+    expect(validateAlert(alert)).toEqual(["End time is not a valid hour and minute."])
+  })
+
+  it("requires the end time to follow the start time", () => {
+    const alert = makeAlert({ kind: "interval", intervalHours: "2", endHour: "07", endMinute: "00" })
+    expect(validateAlert(alert)).toEqual(["End time must be later than the start time on the same day."])
+  })
+
+  it("requires intervals to divide the day without an end time", () => {
+    expect(validateAlert(makeAlert({ kind: "interval", intervalHours: "5" }))[0]).toMatch(/does not divide the day/)
+    expect(validateAlert(makeAlert({ kind: "interval", intervalHours: "13" }))[0]).toMatch(/between 1 and 12/)
+  })
+
+  it("rejects a course ending before it starts", () => {
+    expect(validateAlert(makeAlert({ startDate: "2026-02-01", endDate: "2026-01-01" }))).toEqual([
+      "End date must not be before the start date.",
+    ])
+  })
+})
@@ -0,0 +1,255 @@
+import { validateDosage } from "@/lib/dosage"
+import type { Alert, AlertTime } from "@/lib/types"
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+export const ALL_DAYS = ["0", "1", "2", "3", "4", "5", "6"]
+
+const pad = (value: number) => value.toString().padStart(2, "0")
+
+const toMinutes = (hour: string, minute: string) => Number.parseInt(hour) * 60 + Number.parseInt(minute)
+
+const fromMinutes = (total: number): AlertTime => ({ hour: pad(Math.floor(total / 60)), minute: pad(total % 60) })
+
+// Calendar dates are kept as local "yyyy-mm-dd" strings, the same form the
+// device clock reports.
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export function parseDateString(value: string | undefined): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? "")
+  if (!match) return undefined
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return toDateString(date) === value ? date : undefined
+}
+
+export function formatDate(value: string): string {
+  return parseDateString(value)?.toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" }) ?? value
+}
+
+export const isDateString = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+// Labels a slot's day, which is a weekday number or, for one-off alerts, a date.
+export function formatDay(day: string): string {
+  return isDateString(day) ? formatDate(day) : (DAY_LABELS[Number.parseInt(day)] ?? day)
+}
+
+export function formatTime(time: AlertTime): string {
+  return `${time.hour.padStart(2, "0")}:${time.minute.padStart(2, "0")}`
+}
+
+// Weekdays a repeating alert fires on; one-off alerts have none.
+export function getAlertDays(alert: Alert): string[] {
+  if (alert.kind === "once") return []
+  return alert.isEveryday ? ALL_DAYS : alert.selectedDays
+}
+
+// Times of day the alert fires, in ascending order. Fixed alerts fire at
+// hour:minute (or the given day's override) and each of their extra times.
+// Interval alerts fire every intervalHours from the start time, either until
+// the end time or, without one, around the clock (the interval then divides
+// 24, so the times repeat identically every day).
+export function getAlertTimes(alert: Alert, day?: string): AlertTime[] {
+  const start = toMinutes(alert.hour, alert.minute)
+
+  if (alert.kind !== "interval") {
+    const override = day !== undefined ? alert.dayTimes?.[day] : undefined
+    const first = override ? toMinutes(override.hour, override.minute) : start
+    const times = [first, ...(alert.extraTimes ?? []).map((time) => toMinutes(time.hour, time.minute))]
+    return Array.from(new Set(times))
+      .sort((a, b) => a - b)
+      .map(fromMinutes)
+  }
+
+  const interval = Number.parseInt(alert.intervalHours ?? "") * 60
+  if (!(interval > 0)) return [fromMinutes(start)]
+
+  const times: number[] = []
+  if (alert.endHour !== undefined && alert.endHour !== "") {
+    const end = toMinutes(alert.endHour, alert.endMinute || "0")
+    for (let time = start; time <= end; time += interval) times.push(time)
+  } else {
+    for (let time = start; time < start + 24 * 60; time += interval) times.push(time % (24 * 60))
+  }
+
+  return times.sort((a, b) => a - b).map(fromMinutes)
+}
+
+export type AlertOccurrence = {
+  time: AlertTime
+  days: string[]
+}
+
+// Every distinct time of day the alert fires, in ascending order, with the
+// days it fires at that time. Without per-day overrides every time carries
+// all of the alert's days. A one-off alert's only "day" is its date.
+export function getAlertOccurrences(alert: Alert): AlertOccurrence[] {
+  if (alert.kind === "once") {
+    return getAlertTimes(alert).map((time) => ({ time, days: [alert.date ?? ""] }))
+  }
+
+  const occurrences = new Map<string, AlertOccurrence>()
+
+  getAlertDays(alert).forEach((day) => {
+    getAlertTimes(alert, day).forEach((time) => {
+      const key = formatTime(time)
+      const occurrence = occurrences.get(key)
+      if (occurrence) {
+        occurrence.days.push(day)
+      } else {
+        occurrences.set(key, { time, days: [day] })
+      }
+    })
+  })
+
+  return Array.from(occurrences.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, occurrence]) => occurrence)
+}
+
+// How many times the alert fires on each of its days: weekdays ("0" = Sunday),
+// or the date of a one-off. The sum is the alert's weekly occurrence count.
+export function countOccurrencesByDay(alert: Alert): Map<string, number> {
+  const counts = new Map<string, number>()
+  getAlertOccurrences(alert).forEach(({ days }) => {
+    days.forEach((day) => counts.set(day, (counts.get(day) ?? 0) + 1))
+  })
+  return counts
+}
+
+// Per-day overrides that apply to the alert's current days, grouped by time.
+const describeDayTimes = (alert: Alert) => {
+  const byTime = new Map<string, string[]>()
+  getAlertDays(alert).forEach((day) => {
+    const override = alert.dayTimes?.[day]
+    if (!override) return
+    const key = formatTime(override)
+    byTime.set(key, [...(byTime.get(key) ?? []), DAY_LABELS[Number.parseInt(day)]])
+  })
+  return Array.from(byTime.entries()).map(([time, days]) => `${days.join(", ")} ${time}`)
+}
+
+export function describeAlertSchedule(alert: Alert): string {
+  if (alert.kind === "once") {
+    return `${formatDate(alert.date ?? "")} at ${getAlertTimes(alert).map(formatTime).join(", ")}`
+  }
+  if (alert.kind !== "interval") {
+    return [getAlertTimes(alert).map(formatTime).join(", "), ...describeDayTimes(alert)].join("; ")
+  }
+
+  const window = alert.endHour ? ` until ${formatTime({ hour: alert.endHour, minute: alert.endMinute || "0" })}` : ""
+  return `Every ${alert.intervalHours}h from ${formatTime(alert)}${window}`
+}
+
+// Describes the course of treatment an alert is limited to, or null if it repeats indefinitely.
+export function describeAlertCourse(alert: Pick<Alert, "startDate" | "endDate">): string | null {
+  if (alert.startDate && alert.endDate) return `${formatDate(alert.startDate)} – ${formatDate(alert.endDate)}`
+  if (alert.startDate) return `From ${formatDate(alert.startDate)}`
+  if (alert.endDate) return `Until ${formatDate(alert.endDate)}`
+  return null
+}
+
+// Describes what happens while the alert goes unacknowledged, or null if it just fires once.
+export function describeAlertFollowUp(
+  alert: Pick<Alert, "snoozeMinutes" | "maxRepeats" | "escalateAfterMinutes">,
+): string | null {
+  const parts: string[] = []
+  if (alert.snoozeMinutes) {
+    parts.push(`Repeats every ${alert.snoozeMinutes} min${alert.maxRepeats ? `, up to ${alert.maxRepeats}×` : ""}`)
+  }
+  if (alert.escalateAfterMinutes) parts.push(`Escalates after ${alert.escalateAfterMinutes} min`)
+  return parts.length > 0 ? parts.join(" · ") : null
+}
+
+// True for a one-off alert whose last time has already gone by.
+export function isPastOneOff(alert: Alert, now: Date = new Date()): boolean {
+  if (alert.kind !== "once" || !alert.date) return false
+  const times = getAlertTimes(alert)
+  const last = `${alert.date} ${formatTime(times[times.length - 1])}`
+  return last < `${toDateString(now)} ${formatTime(fromMinutes(now.getHours() * 60 + now.getMinutes()))}`
+}
+
+// True once the alert's last day (or a one-off alert's date) has passed.
+export function isAlertExpired(alert: Pick<Alert, "kind" | "date" | "endDate">, today: Date = new Date()): boolean {
+  const lastDay = alert.kind === "once" ? alert.date : alert.endDate
+  return !!lastDay && lastDay < toDateString(today)
+}
+
+const isInRange = (value: string | undefined, min: number, max: number) => {
+  const number = Number(value)
+  return value !== undefined && value !== "" && Number.isInteger(number) && number >= min && number <= max
+}
+
+// Returns the problems with a single alert; an empty list means it can be sent.
+export function validateAlert(alert: Alert): string[] {
+  const problems: string[] = []
+
+  if (!alert.message.trim()) problems.push("Message is required.")
+  if (alert.kind === "once") {
+    if (!parseDateString(alert.date)) problems.push("Pick the date of the one-off alert.")
+  } else if (getAlertDays(alert).length === 0) {
+    problems.push("Select at least one day.")
+  }
+  if (!isInRange(alert.hour, 0, 23) || !isInRange(alert.minute, 0, 59)) problems.push("Time is not a valid hour and minute.")
+  if (alert.type === "Medicine" && alert.dosage) problems.push(...validateDosage(alert.dosage))
+  if (alert.stockCount !== undefined && alert.stockCount !== "") {
+    const stock = Number(alert.stockCount)
+    if (!Number.isFinite(stock) || stock < 0) problems.push("Stock on hand must be a number of zero or more.")
+    if (!parseDateString(alert.stockCountedOn)) problems.push("Pick the date the stock was counted.")
+  }
+
+  const isSet = (value: string | undefined) => value !== undefined && value !== ""
+  if (isSet(alert.snoozeMinutes) && !isInRange(alert.snoozeMinutes, 1, 60)) {
+    problems.push("Snooze must be between 1 and 60 minutes.")
+  }
+  if (isSet(alert.maxRepeats)) {
+    if (!isInRange(alert.maxRepeats, 1, 10)) problems.push("Repeats must be between 1 and 10.")
+    else if (!isSet(alert.snoozeMinutes)) problems.push("Set a snooze interval for the alert to repeat.")
+  }
+  if (isSet(alert.escalateAfterMinutes) && !isInRange(alert.escalateAfterMinutes, 1, 240)) {
+    problems.push("Escalation must be between 1 and 240 minutes.")
+  }
+
+  const dayTimes = alert.kind === "interval" ? [] : Object.values(alert.dayTimes ?? {})
+  if (dayTimes.some((time) => !isInRange(time.hour, 0, 23) || !isInRange(time.minute, 0, 59))) {
+    problems.push("Every per-day time needs a valid hour and minute.")
+  }
+
+  const extraTimes = alert.kind === "interval" ? [] : (alert.extraTimes ?? [])
+  if (extraTimes.some((time) => !isInRange(time.hour, 0, 23) || !isInRange(time.minute, 0, 59))) {
+    problems.push("Every additional time needs a valid hour and minute.")
+  } else if (new Set([alert, ...extraTimes].map(formatTime)).size <= extraTimes.length) {
+    problems.push("The same time of day is listed more than once.")
+  }
+
+  if (alert.kind === "interval") {
+    const interval = Number(alert.intervalHours)
+    // An empty end hour is a window still being typed, not a missing one.
+    const hasWindow = alert.endHour !== undefined
+
+    if (!isInRange(alert.intervalHours, 1, 12)) {
+      problems.push("Interval must be a whole number of hours between 1 and 12.")
+    } else if (!hasWindow && 24 % interval !== 0) {
+      problems.push(`Every ${interval} hours does not divide the day evenly; use 1, 2, 3, 4, 6, 8 or 12, or set an end time.`)
+    }
+
+    if (hasWindow) {
+      if (!isInRange(alert.endHour, 0, 23) || !isInRange(alert.endMinute || "0", 0, 59)) {
+        problems.push("End time is not a valid hour and minute.")
+      } else if (toMinutes(alert.endHour as string, alert.endMinute || "0") <= toMinutes(alert.hour, alert.minute)) {
+        problems.push("End time must be later than the start time on the same day.")
+      }
+    }
+  }
+
+  if (alert.startDate && !parseDateString(alert.startDate)) problems.push("Start date is not a valid date.")
+  if (alert.endDate && !parseDateString(alert.endDate)) problems.push("End date is not a valid date.")
+  const start = parseDateString(alert.startDate)
+  const end = parseDateString(alert.endDate)
+  if (start && end && end < start) {
+    problems.push("End date must not be before the start date.")
+  }
+
+  return problems
+}
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { type SerialLink, SerialCancelledError, SerialTimeoutError, createSerialLink } from "@/lib/serial-link"
+import { createFakePort } from "@/lib/test-helpers"
+
+let link: SerialLink | null = null
+
+afterEach(async () => {
+  await link?.close()
+  link = null
+})
+
+describe("createSerialLink", () => {
+  it("reports written lines once they are complete", async () => {
+    link = createSerialLink(createFakePort().port)
+    const lines: string[] = []
+    link.onWrite((line) => lines.push(line))
+
+    await link.write("@RX,1\n1\nm,1,08,")
+    expect(lines).toEqual(["@RX,1", "1"])
+    await link.write("00,Take pills\r\n")
+    expect(lines).toEqual(["@RX,1", "1", "m,1,08,00,Take pills"])
+  })
+
+  it("waits for a matching device line", async () => {
+    const fake = createFakePort((text) => (text === "PING\n" ? ["BOOT OK", "PONG"] : []))
+    link = createSerialLink(fake.port)
+    const reply = link.waitForLine((line) => line.startsWith("PONG"), 50)
+    await link.write("PING\n")
+    expect(await reply).toBe("PONG")
+  })
+
+  it("times out or cancels while waiting", async () => {
+    link = createSerialLink(createFakePort().port)
+    await expect(link.waitForLine(() => true, 10)).rejects.toBeInstanceOf(SerialTimeoutError)
+
+    const controller = new AbortController()
+    const reply = link.waitForLine(() => true, 1000, controller.signal)
+    controller.abort()
+    await expect(reply).rejects.toBeInstanceOf(SerialCancelledError)
+  })
+})
@@ -0,0 +1,141 @@
+// Line-oriented wrapper around an open Web Serial port. A single read loop owns
+// port.readable and hands every decoded line to the registered listeners, so
+// callers can wait for a device reply without fighting over the reader lock.
+// Write listeners see every complete line the host sends, for transcripts;
+// a line split across chunked writes is reported once its newline is sent.
+
+type LineListener = (line: string) => void
+
+export type SerialLink = {
+  write: (text: string) => Promise<void>
+  waitForLine: (match: (line: string) => boolean, timeoutMs: number, signal?: AbortSignal) => Promise<string>
+  onLine: (listener: LineListener) => () => void
+  onWrite: (listener: LineListener) => () => void
+  close: () => Promise<void>
+}
+
+export class SerialTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No reply from device within ${timeoutMs} ms`)
+    this.name = "SerialTimeoutError"
+  }
+}
+
+export class SerialCancelledError extends Error {
+  constructor() {
+    super("Cancelled while waiting for the device")
+    this.name = "SerialCancelledError"
+  }
+}
+
+export function createSerialLink(port: any): SerialLink {
+  const listeners = new Set<LineListener>()
+  const writeListeners = new Set<LineListener>()
+  const encoder = new TextEncoder()
+  let reader: any = null
+  let closed = false
+  let pendingWrite = ""
+
+  const emit = (line: string) => {
+    listeners.forEach((listener) => listener(line))
+  }
+
+  const readLoop = async () => {
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    while (!closed && port.readable) {
+      reader = port.readable.getReader()
+      try {
+        while (true) {
+          const { value, done } = await reader.read()
+          if (done) break
+          buffer += decoder.decode(value, { stream: true })
+
+          let newline = buffer.indexOf("\n")
+          while (newline !== -1) {
+            emit(buffer.slice(0, newline).replace(/\r$/, ""))
+            buffer = buffer.slice(newline + 1)
+            newline = buffer.indexOf("\n")
+          }
+        }
+      } catch (error) {
+        // Framing or parity errors are recoverable; the loop reacquires the reader.
+        if (!closed) console.error("[UART] Read error:", error)
+      } finally {
+        reader.releaseLock()
+        reader = null
+      }
+    }
+  }
+
+  const loop = readLoop()
+
+  const onLine = (listener: LineListener) => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  const onWrite = (listener: LineListener) => {
+    writeListeners.add(listener)
+    return () => {
+      writeListeners.delete(listener)
+    }
+  }
+
+  // Rejects with SerialTimeoutError after timeoutMs, or SerialCancelledError
+  // as soon as the signal aborts.
+  const waitForLine = (match: (line: string) => boolean, timeoutMs: number, signal?: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new SerialCancelledError())
+        return
+      }
+
+      const finish = (settle: () => void) => {
+        clearTimeout(timeout)
+        unsubscribe()
+        signal?.removeEventListener("abort", cancel)
+        settle()
+      }
+
+      const cancel = () => finish(() => reject(new SerialCancelledError()))
+      const timeout = setTimeout(() => finish(() => reject(new SerialTimeoutError(timeoutMs))), timeoutMs)
+      const unsubscribe = onLine((line) => {
+        if (match(line)) finish(() => resolve(line))
+      })
+      signal?.addEventListener("abort", cancel)
+    })
+
+  const write = async (text: string) => {
+    const writer = port.writable?.getWriter()
+    if (!writer) throw new Error("Cannot get writer")
+
+    try {
+      await writer.write(encoder.encode(text))
+    } finally {
+      writer.releaseLock()
+    }
+
+    pendingWrite += text
+    let newline = pendingWrite.indexOf("\n")
+    while (newline !== -1) {
+      const line = pendingWrite.slice(0, newline).replace(/\r$/, "")
+      writeListeners.forEach((listener) => listener(line))
+      pendingWrite = pendingWrite.slice(newline + 1)
+      newline = pendingWrite.indexOf("\n")
+    }
+  }
+
+  const close = async () => {
+    closed = true
+    listeners.clear()
+    writeListeners.clear()
+    if (reader) await reader.cancel()
+    await loop
+  }
+
+  return { write, waitForLine, onLine, onWrite, close }
+}
@@ -0,0 +1,53 @@
+import type { Alert, FormData } from "@/lib/types"
+
+// Fixtures shared by the lib/*.test.ts suites. Tests override only the fields
+// they are about, so the defaults stay a plain weekly Monday dose.
+
+export const makeAlert = (changes: Partial<Alert> = {}): Alert => ({
+  message: "Take pills",
+  type: "Medicine",
+  isEveryday: false,
+  selectedDays: ["1"],
+  hour: "08",
+  minute: "00",
+  ...changes,
+})
+
+export const makeConfig = (alerts: Alert[], changes: Partial<FormData> = {}): FormData => ({
+  name: "Jane Doe",
+  phone: "555-0100",
+  email: "jane@example.com",
+  medicalInfo: "Diabetic",
+  deviceId: 42,
+  alerts,
+  ...changes,
+})
+
+// Stand-in for a Web Serial port, for driving createSerialLink. Everything the
+// host writes is recorded in `written`; `respond` sees each write and returns
+// the lines the device answers with. Close the link at the end of each test.
+export function createFakePort(respond: (text: string) => string[] = () => []) {
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+  const written: string[] = []
+  let device!: ReadableStreamDefaultController<Uint8Array>
+
+  const send = (line: string) => device.enqueue(encoder.encode(line + "\n"))
+
+  const port = {
+    readable: new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        device = controller
+      },
+    }),
+    writable: new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        const text = decoder.decode(chunk)
+        written.push(text)
+        respond(text).forEach(send)
+      },
+    }),
+  }
+
+  return { port, written, send }
+}
@@ -0,0 +1,113 @@
+export type AlertTime = {
+  hour: string
+  minute: string
+}
+
+export type AlertType = "Reminder" | "Medicine" | "Appointment" | "Hydration" | "Vitals" | "Exercise"
+
+// Structured details of a medicine dose (see lib/dosage.ts).
+export type Dosage = {
+  drug: string
+  // Free text such as "500 mg" or "5 mg/ml".
+  strength: string
+  // How many units make one dose, e.g. "1" or "0.5".
+  amount: string
+  unit: string
+  route: string
+  // Free text such as "with food" or "before bed".
+  instructions: string
+}
+
+export type Alert = {
+  message: string
+  type: AlertType
+  isEveryday: boolean
+  selectedDays: string[]
+  hour: string
+  minute: string
+  // Further times of day a fixed alert fires at, besides hour:minute.
+  extraTimes?: AlertTime[]
+  // Per-weekday replacement for hour:minute on fixed alerts, keyed by day
+  // ("0" = Sunday); days without an entry use hour:minute.
+  dayTimes?: Record<string, AlertTime>
+  // "interval" alerts repeat every intervalHours from hour:minute, optionally
+  // stopping at endHour:endMinute; "once" alerts fire only on date; missing
+  // means fixed times on the selected weekdays.
+  kind?: "fixed" | "interval" | "once"
+  intervalHours?: string
+  endHour?: string
+  endMinute?: string
+  // Calendar date of a one-off alert, as "yyyy-mm-dd".
+  date?: string
+  // Optional course of treatment as "yyyy-mm-dd" dates, both inclusive; the
+  // alert only fires between them.
+  startDate?: string
+  endDate?: string
+  // Follow-up while unacknowledged: fire again every snoozeMinutes, at most
+  // maxRepeats times, and start the emergency contact flow once
+  // escalateAfterMinutes have passed. All optional.
+  snoozeMinutes?: string
+  maxRepeats?: string
+  escalateAfterMinutes?: string
+  // Medicine alerts only. When set, message is rendered from it and should not
+  // be edited by hand.
+  dosage?: Dosage
+  // Medicine alerts only: dispenser compartment (1-based) opened for each
+  // expanded occurrence, keyed "{day}@{hh:mm}" (see lib/compartments.ts).
+  // Occurrences without an entry only sound the alert.
+  compartments?: Record<string, string>
+  // Medicine alerts only: units of the medication on hand as counted on
+  // stockCountedOn ("yyyy-mm-dd"). Doses due since then are subtracted when
+  // forecasting refills (see lib/inventory.ts).
+  stockCount?: string
+  stockCountedOn?: string
+}
+
+// An alert while it is being edited on the dashboard.
+export type EditableAlert = Alert & {
+  id: string
+}
+
+export type FormData = {
+  name: string
+  phone: string
+  email: string
+  medicalInfo: string
+  deviceId: number
+  // Wire format version the device is configured for; defaults to 1.
+  protocolVersion?: number
+  // Display charset text is transliterated into; defaults to UTF-8 (unchanged).
+  charset?: string
+  // Send each category's own type code; otherwise every alert goes out as r or m
+  // (see lib/alert-types.ts). Defaults to false.
+  extendedAlertTypes?: boolean
+  alerts: Alert[]
+}
+
+export type StoredDevice = FormData & {
+  id: string
+  timestamp: string
+  formattedOutput: string
+  // Set once the device has acknowledged this exact configuration.
+  syncedAt?: string
+}
+
+export type DeviceCapabilities = {
+  protocolVersion: number
+  maxAlerts: number
+  maxMessageLength: number
+  charset: string
+  // UART receive buffer in bytes; reported only by firmware with chunk handshakes.
+  bufferSize?: number
+  // Alert type codes the firmware understands, e.g. "rmahve"; absent means r and m only.
+  alertTypeCodes?: string
+  // Optional alert line fields the firmware parses, e.g. "cofd"; absent means
+  // five-field lines only (see ALERT_LINE_EXTENSIONS in lib/wire-format.ts).
+  lineExtensions?: string
+}
+
+export type ProcessAlertRequest = FormData & {
+  capabilities?: DeviceCapabilities
+  // Window for near-collision warnings; see lib/schedule-lint.ts.
+  nearCollisionMinutes?: number
+}
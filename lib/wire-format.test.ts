@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest"
+import { crc32Hex } from "@/lib/crc32"
+import { makeAlert, makeConfig } from "@/lib/test-helpers"
+import type { Alert } from "@/lib/types"
+import {
+  countDeviceSlots,
+  escapeField,
+  expandAlerts,
+  formatAlertData,
+  getRequiredExtensions,
+  getFrameChecksum,
+  parseAlertData,
+  splitFields,
+  toFormData,
+} from "@/lib/wire-format"
+
+// Alert lines of a formatted frame, split into unescaped fields.
+const getAlertFields = (frame: string) => {
+  const lines = frame.split("\n")
+  return lines.slice(2, 2 + Number.parseInt(lines[1])).map(splitFields)
+}
+
+const COURSE: Partial<Alert> = { startDate: "2026-03-01", endDate: "" }
+const FOLLOW_UP: Partial<Alert> = { snoozeMinutes: "10", maxRepeats: "3", escalateAfterMinutes: "" }
+
+// Alert line field count → an alert producing lines of that length.
+const FIELD_COUNT_CASES: [number, Partial<Alert>][] = [
+  [5, {}],
+  [7, COURSE],
+  [10, FOLLOW_UP],
+  [11, { compartments: { "1@08:00": "5" } }],
+]
+
+describe("escapeField", () => {
+  it("escapes separators, line breaks and a leading @", () => {
+    expect(escapeField("a,b\\c\nd\re")).toBe("a\\,b\\\\c\\nd\\re")
+    expect(escapeField("@END")).toBe("\\@END")
+  })
+
+  it("round-trips through splitFields", () => {
+    const values = ["a,b", "back\\slash", "two\nlines", "@RX,1", ""]
+    expect(splitFields(values.map(escapeField).join(","))).toEqual(values)
+  })
+})
+
+describe("formatAlertData", () => {
+  it("frames v1 with one line per day", () => {
+    const lines = formatAlertData(makeConfig([makeAlert({ selectedDays: ["1", "3"] })])).split("\n")
+    expect(lines.slice(0, -1)).toEqual([
+      "@RX,1",
+      "2",
+      "m,1,08,00,Take pills",
+      "m,3,08,00,Take pills",
+      "Jane Doe,555-0100,jane@example.com",
+      "Diabetic",
+      "42",
+    ])
+  })
+
+  it("escapes free text so it cannot break the framing", () => {
+    const frame = formatAlertData(
+      makeConfig([makeAlert({ message: "@END, then\nmore" })], { name: "Doe, Jane", medicalInfo: "Line 1\r\nLine 2" }),
+    )
+    expect(frame.split("\n")).toHaveLength(7)
+    expect(getAlertFields(frame)).toEqual([["m", "1", "08", "00", "@END, then\nmore"]])
+  })
+
+  it.each(FIELD_COUNT_CASES)("writes %i-field alert lines", (count, changes) => {
+    const fields = getAlertFields(formatAlertData(makeConfig([makeAlert(changes)])))
+    fields.forEach((line) => expect(line).toHaveLength(count))
+  })
+
+  it("frames v2 with one line per time of day and a weekday mask", () => {
+    const config = makeConfig([makeAlert({ isEveryday: true }), makeAlert({ selectedDays: ["1", "3"] })], {
+      protocolVersion: 2,
+    })
+    expect(formatAlertData(config).split("\n").slice(0, 4)).toEqual([
+      "@RX,2",
+      "2",
+      "m,127,08,00,Take pills",
+      "m,10,08,00,Take pills",
+    ])
+  })
+
+  it("splits v2 lines by each day's time", () => {
+    const alert = makeAlert({ selectedDays: ["1", "3"], dayTimes: { "3": { hour: "10", minute: "15" } } })
+    const fields = getAlertFields(formatAlertData(makeConfig([alert], { protocolVersion: 2 })))
+    expect(fields.map(([, mask, hour, minute]) => [mask, hour, minute])).toEqual([
+      ["2", "08", "00"],
+      ["8", "10", "15"],
+    ])
+  })
+
+  it("splits v2 lines by compartment", () => {
+    const alert = makeAlert({ selectedDays: ["1", "2", "3"], compartments: { "1@08:00": "5", "3@08:00": "13" } })
+    const frame = formatAlertData(makeConfig([alert], { protocolVersion: 2 }))
+    expect(getAlertFields(frame).map((line) => [line[1], line[10] ?? null])).toEqual([
+      ["2", "5"],
+      ["4", null],
+      ["8", "13"],
+    ])
+    expect(toFormData(parseAlertData(frame)).alerts).toEqual([alert])
+  })
+
+  it("transliterates free text into the device charset", () => {
+    const config = makeConfig([makeAlert({ message: "Crème – now" })], { name: "Zoë", charset: "ascii" })
+    const lines = formatAlertData(config).split("\n")
+    expect(lines[2]).toBe("m,1,08,00,Creme - now")
+    expect(lines[3]).toBe("Zoe,555-0100,jane@example.com")
+  })
+
+  it("rejects an unsupported version", () => {
+    expect(() => formatAlertData(makeConfig([makeAlert()], { protocolVersion: 3 }))).toThrow(/version: 3/)
+  })
+
+  it("sends one line per interval repetition", () => {
+    const alert = makeAlert({ kind: "interval", intervalHours: "6", endHour: "20", endMinute: "00" })
+    expect(getAlertFields(formatAlertData(makeConfig([alert]))).map(([, , hour]) => hour)).toEqual(["08", "14", "20"])
+  })
+
+  it("leaves unset dates empty before follow-up settings", () => {
+    expect(getAlertFields(formatAlertData(makeConfig([makeAlert(FOLLOW_UP)])))[0].slice(5)).toEqual([
+      "",
+      "",
+      "10",
+      "3",
+      "",
+    ])
+  })
+
+  it("ends the frame with the CRC-32 of every line before the trailer", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()]))
+    const lines = frame.split("\n")
+    const checksum = crc32Hex(lines.slice(0, -1).join("\n"))
+
+    expect(lines[lines.length - 1]).toBe(`@END,${checksum}`)
+    expect(getFrameChecksum(frame)).toBe(checksum)
+  })
+})
+
+describe("parseAlertData", () => {
+  it.each(FIELD_COUNT_CASES)("round-trips %i-field alert lines", (_, changes) => {
+    const config = makeConfig([makeAlert({ message: "Take 2, @noon\nwith water", ...changes })], {
+      name: "Doe, Jane",
+      medicalInfo: "Diabetic\nAllergic to penicillin",
+    })
+    expect(parseAlertData(formatAlertData(config))).toEqual({
+      version: 1,
+      verified: true,
+      alerts: expandAlerts(config.alerts),
+      name: "Doe, Jane",
+      phone: "555-0100",
+      email: "jane@example.com",
+      medicalInfo: "Diabetic\nAllergic to penicillin",
+      deviceId: 42,
+    })
+  })
+
+  it("rejects malformed frames", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()]))
+    expect(() => parseAlertData(frame.replace("@RX", "@XX"))).toThrow(/header/)
+    expect(() => parseAlertData(frame.split("\n").slice(0, -1).join("\n"))).toThrow(/terminator/)
+    expect(() => parseAlertData(frame.replace("@RX,1", "@RX,9"))).toThrow(/version/)
+  })
+
+  it("verifies the checksum", () => {
+    expect(parseAlertData(formatAlertData(makeConfig([makeAlert()]))).verified).toBe(true)
+  })
+
+  it("accepts a lowercase checksum", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()]))
+    const lowercase = frame.replace(/@END,(\w+)$/, (_, checksum: string) => `@END,${checksum.toLowerCase()}`)
+    expect(parseAlertData(lowercase).verified).toBe(true)
+  })
+
+  it("rejects a checksum mismatch", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()]))
+    expect(() => parseAlertData(frame.replace("Take pills", "Take pillz"))).toThrow(/Checksum mismatch/)
+  })
+})
+
+describe.each([1, 2])("parseAlertData v%i", (protocolVersion) => {
+  it("round-trips through toFormData", () => {
+    const alerts = [
+      makeAlert({ isEveryday: true, selectedDays: [] }),
+      makeAlert({ type: "Reminder", message: "Walk", selectedDays: ["0", "6"] }),
+    ]
+    const config = makeConfig(alerts, { protocolVersion })
+    const frame = parseAlertData(formatAlertData(config))
+    expect(frame.version).toBe(protocolVersion)
+    expect(frame.alerts).toEqual(expandAlerts(config.alerts))
+    expect(toFormData(frame)).toMatchObject({ protocolVersion, alerts: config.alerts })
+  })
+})
+
+describe("parseAlertData v2 masks", () => {
+  it("rejects a mask outside 1-127", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()], { protocolVersion: 2 })).replace(/@END,\w+$/, "@END")
+    expect(() => parseAlertData(frame.replace("m,2,", "m,0,"))).toThrow(/weekday mask/)
+    expect(() => parseAlertData(frame.replace("m,2,", "m,128,"))).toThrow(/weekday mask/)
+  })
+})
+
+describe("getRequiredExtensions", () => {
+  it("lists the optional fields a schedule uses", () => {
+    expect(getRequiredExtensions([makeAlert()])).toEqual([])
+    expect(getRequiredExtensions([makeAlert(), makeAlert(COURSE)])).toEqual(["course"])
+    expect(getRequiredExtensions([makeAlert(FOLLOW_UP)])).toEqual(["followUp"])
+    expect(getRequiredExtensions([makeAlert({ type: "Reminder", compartments: { "1@08:00": "5" } })])).toEqual([])
+  })
+})
+
+describe("countDeviceSlots", () => {
+  it("counts one slot per day in v1 and per time of day in v2", () => {
+    const alerts = [makeAlert({ isEveryday: true }), makeAlert({ hour: "20", isEveryday: true })]
+    expect(countDeviceSlots(alerts)).toBe(14)
+    expect(countDeviceSlots(alerts, 2)).toBe(2)
+  })
+})
+
+describe("toFormData", () => {
+  it("collapses per-day lines back into one alert", () => {
+    const config = makeConfig([
+      makeAlert({ isEveryday: true, selectedDays: [] }),
+      makeAlert({ type: "Reminder", message: "Walk", selectedDays: ["2", "4"], hour: "17", minute: "30" }),
+    ])
+    expect(toFormData(parseAlertData(formatAlertData(config)))).toEqual({
+      name: "Jane Doe",
+      phone: "555-0100",
+      email: "jane@example.com",
+      medicalInfo: "Diabetic",
+      deviceId: 42,
+      protocolVersion: 1,
+      extendedAlertTypes: false,
+      alerts: config.alerts,
+    })
+  })
+
+  it("merges alerts that differ only in time of day into extra times", () => {
+    const extraTimes = [
+      { hour: "12", minute: "30" },
+      { hour: "20", minute: "00" },
+    ]
+    const alert = makeAlert({ selectedDays: ["1", "3"], extraTimes })
+    const frame = parseAlertData(formatAlertData(makeConfig([alert])))
+    expect(frame.alerts).toHaveLength(6)
+    expect(toFormData(frame).alerts).toEqual([alert])
+  })
+
+  it("puts a one-off alert's date in place of the day", () => {
+    const alert = makeAlert({ kind: "once", date: "2026-03-14", selectedDays: [] })
+    const frame = formatAlertData(makeConfig([alert], { protocolVersion: 2 }))
+    expect(getAlertFields(frame)[0].slice(0, 2)).toEqual(["m", "2026-03-14"])
+    expect(toFormData(parseAlertData(frame)).alerts).toEqual([alert])
+  })
+
+  it("restores extended alert categories", () => {
+    const alerts = [makeAlert({ type: "Appointment", message: "Dentist" }), makeAlert()]
+    const frame = formatAlertData(makeConfig(alerts, { extendedAlertTypes: true }))
+    expect(getAlertFields(frame).map(([type]) => type)).toEqual(["a", "m"])
+    expect(toFormData(parseAlertData(frame))).toMatchObject({ extendedAlertTypes: true, alerts })
+  })
+
+  it("re-encodes to the same frame", () => {
+    const frame = formatAlertData(makeConfig([makeAlert({ message: "Take 2, @noon", selectedDays: ["0", "6"] })]))
+    expect(formatAlertData(toFormData(parseAlertData(frame)))).toBe(frame)
+  })
+})
+
+describe("parseAlertData without a checksum", () => {
+  it("reads a bare @END trailer as unverified", () => {
+    const frame = formatAlertData(makeConfig([makeAlert({ selectedDays: ["1", "3"] })]))
+    const decoded = parseAlertData(frame.replace(/@END,\w+$/, "@END"))
+    expect(decoded.verified).toBe(false)
+    expect(decoded.alerts).toHaveLength(2)
+  })
+
+  it("reads legacy files without framing", () => {
+    const decoded = parseAlertData("1\nm,1,08,00,Take pills, now\nJane, Doe,555,jane@example.com\nDiabetic\n42\n")
+    expect(decoded).toMatchObject({ version: 0, verified: false, name: "Jane, Doe", deviceId: 42 })
+    expect(decoded.alerts).toEqual([{ type: "m", day: "1", hour: "08", minute: "00", message: "Take pills, now" }])
+  })
+
+  it("rejects an alert count that does not match the frame", () => {
+    const frame = formatAlertData(makeConfig([makeAlert()])).replace(/@END,\w+$/, "@END")
+    expect(() => parseAlertData(frame.replace("@RX,1\n1", "@RX,1\n2"))).toThrow(/Alert count/)
+  })
+})
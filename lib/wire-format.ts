@@ -0,0 +1,480 @@
+import { normalizeCharset, transliterate } from "@/lib/charset"
+import { getTypeByCode, getTypeCode, isExtendedTypeCode } from "@/lib/alert-types"
+import { crc32Hex } from "@/lib/crc32"
+import { getOccurrenceKey } from "@/lib/compartments"
+import { ALL_DAYS, formatTime, getAlertOccurrences, isDateString } from "@/lib/schedule"
+import type { Alert, FormData } from "@/lib/types"
+
+// Framed wire format sent to the RXbot:
+//
+//   @RX,{version}
+//   {number of alert lines}
+//   {type},{day},{hour},{minute},{message}   (v1: one line per expanded alert)
+//   {type},{mask},{hour},{minute},{message}  (v2: one line per alert and time of day)
+//   ...,{message},{start date},{end date}    (alerts limited to a course of treatment)
+//   ...,{end date},{snooze},{repeats},{escalate}  (alerts with follow-up)
+//   ...,{escalate},{compartment}             (medicine doses the dispenser serves)
+//   {type},{date},{hour},{minute},{message}  (one-off alerts, either version)
+//   {name},{phone},{email}
+//   {medical info}
+//   {device id}
+//   @END,{checksum}
+//
+// Free-text fields are escaped so they can never break the framing: backslash,
+// comma, CR and LF are written as \\, \, \r and \n, and a leading "@" is
+// written as \@ so no field can be mistaken for a frame marker.
+//
+// Files saved before the framing was introduced have no header, trailer or
+// escaping; parseAlertData still reads them and reports them as version 0.
+// Frames saved before the checksum was added end in a bare @END; they are
+// read too, but reported as unverified.
+//
+// Version 1 expands every alert into one line per weekday, which all firmware
+// understands. Version 2 sends each alert once with a 7-bit weekday mask in
+// decimal, bit 0 being Sunday, so an everyday alert is a single line with 127.
+// Both decode to the same per-day alerts.
+//
+// The type is r (reminder) or m (medicine) unless the configuration enables
+// extended alert types, in which case each category sends its own code, which
+// only firmware advertising those codes understands (see lib/alert-types.ts).
+//
+// An alert with a start or end date carries both as two extra fields in
+// yyyy-mm-dd form, either left empty when open-ended. The device only fires it
+// between those dates (inclusive), so a finished course stops by itself.
+// Alerts without dates keep the five-field line older firmware expects.
+//
+// Alerts with follow-up settings add three more fields after the (possibly
+// empty) dates: snooze interval in minutes, maximum number of repeats, and
+// minutes unacknowledged before the device escalates to the emergency
+// contact flow. Empty means "not set" (no snooze, no escalation).
+//
+// Medicine doses assigned to a dispenser compartment add its number (1-based)
+// as an eleventh field, after the (possibly empty) dates and follow-up
+// settings. The compartment belongs to a single day and time, so in version 2
+// days of one time share a line only if they share a compartment.
+//
+// One-off alerts put their yyyy-mm-dd date where the weekday (or mask) would
+// be, in both versions. The device fires them once, on that date; the
+// dashboard drops one-offs that have already passed before processing.
+//
+// Firmware only parses these optional parts of an alert line if it lists
+// their codes in its CAPS reply (see ALERT_LINE_EXTENSIONS); configurations
+// needing one the device lacks fail validateAgainstCapabilities.
+//
+// Before framing, free text is transliterated into the device's display
+// charset (see lib/charset.ts), so the payload is exactly what the LCD shows.
+//
+// The checksum is the CRC-32 of every line before the trailer (header included,
+// joined with LF) as 8 uppercase hex digits. The device echoes it in its ACK.
+
+export const WIRE_FORMAT_VERSIONS = [1, 2]
+export const DEFAULT_WIRE_FORMAT_VERSION = 1
+
+const FRAME_START = "@RX"
+const FRAME_END = "@END"
+
+export type ExpandedAlert = {
+  type: string
+  day: string
+  hour: string
+  minute: string
+  message: string
+  startDate?: string
+  endDate?: string
+  snoozeMinutes?: string
+  maxRepeats?: string
+  escalateAfterMinutes?: string
+  compartment?: string
+}
+
+export type AlertLineExtension = "course" | "once" | "followUp" | "compartment"
+
+// Optional alert line fields, with the letter firmware reports in CAPS when it parses them.
+export const ALERT_LINE_EXTENSIONS: Record<AlertLineExtension, { code: string; label: string }> = {
+  course: { code: "c", label: "course start and end dates" },
+  once: { code: "o", label: "one-off dates" },
+  followUp: { code: "f", label: "snooze, repeat and escalation settings" },
+  compartment: { code: "d", label: "dispenser compartments" },
+}
+
+export type DecodedFrame = {
+  version: number
+  // False when nothing vouched for the contents: frames saved before checksums
+  // existed end in a bare @END, and legacy files have no trailer at all.
+  verified: boolean
+  alerts: ExpandedAlert[]
+  name: string
+  phone: string
+  email: string
+  medicalInfo: string
+  deviceId: number
+}
+
+export const isFrameHeader = (line: string) => line.startsWith(`${FRAME_START},`)
+
+export const isFrameTrailer = (line: string) => line === FRAME_END || line.startsWith(`${FRAME_END},`)
+
+export function escapeField(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n")
+  return escaped.startsWith("@") ? `\\${escaped}` : escaped
+}
+
+// Splits a line on unescaped commas and unescapes each resulting field.
+export function splitFields(line: string): string[] {
+  const fields: string[] = []
+  let current = ""
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === "\\" && i + 1 < line.length) {
+      const next = line[++i]
+      current += next === "n" ? "\n" : next === "r" ? "\r" : next
+    } else if (char === ",") {
+      fields.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  fields.push(current)
+
+  return fields
+}
+
+export function unescapeField(value: string): string {
+  return splitFields(value).join(",")
+}
+
+// Optional per-alert settings carried after the message, in wire order.
+const OPTION_FIELDS = ["startDate", "endDate", "snoozeMinutes", "maxRepeats", "escalateAfterMinutes", "compartment"] as const
+
+type AlertOptions = Pick<ExpandedAlert, (typeof OPTION_FIELDS)[number]>
+
+// The options that are set, dropping empty ones so equal settings compare equal.
+const getOptions = (alert: AlertOptions): AlertOptions =>
+  Object.fromEntries(OPTION_FIELDS.filter((field) => alert[field]).map((field) => [field, alert[field]]))
+
+// Dates are sent as a pair when either is set; follow-up settings as a triple
+// after them when any is set; the compartment last of all.
+const formatOptionFields = (alert: AlertOptions) => {
+  const hasFollowUp = alert.snoozeMinutes || alert.maxRepeats || alert.escalateAfterMinutes
+  const count = alert.compartment ? 6 : hasFollowUp ? 5 : alert.startDate || alert.endDate ? 2 : 0
+  return OPTION_FIELDS.slice(0, count)
+    .map((field) => `,${alert[field] ?? ""}`)
+    .join("")
+}
+
+// The fields of one v1 alert line (also the payload of delta slot commands).
+export function formatExpandedAlert(alert: ExpandedAlert): string {
+  return `${alert.type},${alert.day},${alert.hour},${alert.minute},${escapeField(alert.message)}${formatOptionFields(alert)}`
+}
+
+// Dispenser compartment for one occurrence of an alert; only medicine is dispensed.
+const getCompartment = (alert: Alert, day: string, hour: string, minute: string) =>
+  alert.type === "Medicine" ? alert.compartments?.[getOccurrenceKey(day, { hour, minute })] || undefined : undefined
+
+export function expandAlerts(alerts: Alert[], extendedTypes: boolean = false): ExpandedAlert[] {
+  const expandedAlerts: ExpandedAlert[] = []
+
+  alerts.forEach((alert) => {
+    const type = getTypeCode(alert.type, extendedTypes)
+    const message = alert.message
+    const options = getOptions(alert)
+
+    // One slot per selected day and time of day (interval alerts have several)
+    getAlertOccurrences(alert).forEach(({ time: { hour, minute }, days }) => {
+      days.forEach((day) => {
+        const compartment = getCompartment(alert, day, hour, minute)
+        expandedAlerts.push({ type, day, hour, minute, message, ...options, ...(compartment && { compartment }) })
+      })
+    })
+  })
+
+  return expandedAlerts
+}
+
+// The optional alert line fields a schedule's payload will carry.
+export function getRequiredExtensions(alerts: Alert[]): AlertLineExtension[] {
+  const expanded = expandAlerts(alerts)
+  const uses: Record<AlertLineExtension, boolean> = {
+    course: expanded.some((alert) => alert.startDate || alert.endDate),
+    once: expanded.some((alert) => isDateString(alert.day)),
+    followUp: expanded.some((alert) => alert.snoozeMinutes || alert.maxRepeats || alert.escalateAfterMinutes),
+    compartment: expanded.some((alert) => alert.compartment),
+  }
+  return (Object.keys(uses) as AlertLineExtension[]).filter((extension) => uses[extension])
+}
+
+export function getDayMask(days: string[]): number {
+  return days.reduce((mask, day) => mask | (1 << Number.parseInt(day)), 0)
+}
+
+// Number of alert slots the schedule occupies on a device speaking the given version.
+export function countDeviceSlots(alerts: Alert[], version: number = DEFAULT_WIRE_FORMAT_VERSION): number {
+  return version >= 2 ? formatAlertLines(alerts, version).length : expandAlerts(alerts).length
+}
+
+function formatAlertLines(alerts: Alert[], version: number, extendedTypes: boolean = false): string[] {
+  if (version >= 2) {
+    // One line per time of day and compartment, carrying every weekday the
+    // alert fires at that time.
+    return alerts.flatMap((alert) => {
+      const type = getTypeCode(alert.type, extendedTypes)
+      return getAlertOccurrences(alert).flatMap(({ time: { hour, minute }, days }) => {
+        const byCompartment = new Map<string | undefined, string[]>()
+        days.forEach((day) => {
+          const compartment = getCompartment(alert, day, hour, minute)
+          byCompartment.set(compartment, [...(byCompartment.get(compartment) ?? []), day])
+        })
+        return Array.from(byCompartment, ([compartment, compartmentDays]) => {
+          const day = alert.kind === "once" ? compartmentDays[0] : getDayMask(compartmentDays)
+          const options = formatOptionFields({ ...alert, compartment })
+          return `${type},${day},${hour},${minute},${escapeField(alert.message)}${options}`
+        })
+      })
+    })
+  }
+
+  return expandAlerts(alerts, extendedTypes).map(formatExpandedAlert)
+}
+
+// Transliterates every free-text field into the configuration's display charset.
+export function toDeviceCharset(data: FormData): FormData {
+  const charset = normalizeCharset(data.charset)
+  const convert = (text: string) => transliterate(text, charset).text
+
+  return {
+    ...data,
+    name: convert(data.name),
+    phone: convert(data.phone),
+    email: convert(data.email),
+    medicalInfo: convert(data.medicalInfo),
+    alerts: data.alerts.map((alert) => ({ ...alert, message: convert(alert.message) })),
+  }
+}
+
+export function formatAlertData(config: FormData): string {
+  const data = toDeviceCharset(config)
+  const version = data.protocolVersion ?? DEFAULT_WIRE_FORMAT_VERSION
+  if (!WIRE_FORMAT_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported wire format version: ${version}`)
+  }
+
+  const alertLines = formatAlertLines(data.alerts, version, data.extendedAlertTypes)
+  const lines: string[] = [`${FRAME_START},${version}`, alertLines.length.toString(), ...alertLines]
+
+  lines.push([data.name, data.phone, data.email].map(escapeField).join(","))
+  lines.push(escapeField(data.medicalInfo))
+  lines.push(data.deviceId.toString())
+
+  const frameBody = lines.join("\n")
+  return `${frameBody}\n${FRAME_END},${crc32Hex(frameBody)}`
+}
+
+// Returns the checksum carried in a formatted frame's trailer, if any.
+export function getFrameChecksum(text: string): string | null {
+  const trailer = text
+    .split(/\r?\n/)
+    .reverse()
+    .find(isFrameTrailer)
+  if (!trailer) return null
+  const [, checksum] = splitFields(trailer)
+  return checksum || null
+}
+
+export function parseAlertData(text: string): DecodedFrame {
+  const lines = text.split(/\r?\n/)
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop()
+
+  if (/^\d+$/.test(lines[0] ?? "")) {
+    return parseLegacyAlertData(lines)
+  }
+
+  const [marker, versionField] = splitFields(lines[0] ?? "")
+  if (marker !== FRAME_START) {
+    throw new Error("Missing frame header")
+  }
+  const version = Number.parseInt(versionField)
+  if (!WIRE_FORMAT_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported wire format version: ${versionField}`)
+  }
+
+  const endIndex = lines.findIndex(isFrameTrailer)
+  if (endIndex === -1) {
+    throw new Error("Missing frame terminator")
+  }
+
+  const [, checksum] = splitFields(lines[endIndex])
+  const computed = crc32Hex(lines.slice(0, endIndex).join("\n"))
+  if (checksum && checksum.toUpperCase() !== computed) {
+    throw new Error(`Checksum mismatch: frame says ${checksum || "(none)"}, computed ${computed}`)
+  }
+
+  const body = lines.slice(1, endIndex)
+
+  const count = Number.parseInt(body[0])
+  if (isNaN(count) || count < 0 || body.length !== count + 4) {
+    throw new Error("Alert count does not match frame contents")
+  }
+
+  const alerts = body.slice(1, count + 1).flatMap((line, index) => {
+    const fields = splitFields(line)
+    if (![5, 7, 10, 11].includes(fields.length)) {
+      throw new Error(`Malformed alert on line ${index + 3}`)
+    }
+    const [type, day, hour, minute, message, ...optionFields] = fields
+    const options = getOptions(Object.fromEntries(OPTION_FIELDS.map((field, i) => [field, optionFields[i]])))
+    if (version < 2 || isDateString(day)) return [{ type, day, hour, minute, message, ...options }]
+
+    const mask = Number.parseInt(day)
+    if (isNaN(mask) || mask < 1 || mask > 127) {
+      throw new Error(`Malformed weekday mask on line ${index + 3}`)
+    }
+    return ALL_DAYS
+      .filter((weekday) => mask & (1 << Number.parseInt(weekday)))
+      .map((weekday) => ({ type, day: weekday, hour, minute, message, ...options }))
+  })
+
+  const contact = splitFields(body[count + 1])
+  if (contact.length !== 3) {
+    throw new Error("Malformed contact line")
+  }
+  const [name, phone, email] = contact
+
+  const deviceId = Number.parseInt(body[count + 3])
+  if (isNaN(deviceId)) {
+    throw new Error("Malformed device ID")
+  }
+
+  return {
+    version,
+    verified: !!checksum,
+    alerts,
+    name,
+    phone,
+    email,
+    medicalInfo: unescapeField(body[count + 2]),
+    deviceId,
+  }
+}
+
+function parseLegacyAlertData(lines: string[]): DecodedFrame {
+  const count = Number.parseInt(lines[0])
+  if (lines.length < count + 4) {
+    throw new Error("Alert count does not match file contents")
+  }
+
+  const alerts = lines.slice(1, count + 1).map((line, index) => {
+    const fields = line.split(",")
+    if (fields.length < 5) {
+      throw new Error(`Malformed alert on line ${index + 2}`)
+    }
+    const [type, day, hour, minute, ...message] = fields
+    return { type, day, hour, minute, message: message.join(",") }
+  })
+
+  // Unescaped commas in the name are ambiguous; phone and email never contain one.
+  const contact = lines[count + 1].split(",")
+  if (contact.length < 3) {
+    throw new Error("Malformed contact line")
+  }
+  const email = contact.pop() as string
+  const phone = contact.pop() as string
+
+  const deviceId = Number.parseInt(lines[lines.length - 1])
+  if (isNaN(deviceId)) {
+    throw new Error("Malformed device ID")
+  }
+
+  return {
+    version: 0,
+    verified: false,
+    alerts,
+    name: contact.join(","),
+    phone,
+    email,
+    medicalInfo: lines.slice(count + 2, -1).join("\n"),
+    deviceId,
+  }
+}
+
+// Rebuilds form data from a decoded frame, collapsing the per-day lines of
+// each alert back into one alert with isEveryday/selectedDays, then merging
+// alerts that differ only in their time of day into one with extraTimes.
+// Per-day time overrides are not reconstructed: days with a different time
+// come back as a separate alert firing the same slots. Compartments go back
+// into each alert's compartments map.
+export function toFormData(frame: DecodedFrame): FormData {
+  const grouped = new Map<string, Alert>()
+
+  frame.alerts.forEach(({ compartment, ...expanded }) => {
+    const compartments = compartment ? { [getOccurrenceKey(expanded.day, expanded)]: compartment } : undefined
+    // One-off slots carry a date instead of a weekday and group only by date.
+    const date = isDateString(expanded.day) ? expanded.day : undefined
+    const key = [
+      date,
+      expanded.type,
+      expanded.hour,
+      expanded.minute,
+      expanded.message,
+      formatOptionFields(expanded),
+    ].join("\u0000")
+    const alert = grouped.get(key)
+    if (alert) {
+      if (!date && !alert.selectedDays.includes(expanded.day)) alert.selectedDays.push(expanded.day)
+      if (compartments) alert.compartments = { ...alert.compartments, ...compartments }
+      return
+    }
+    grouped.set(key, {
+      message: expanded.message,
+      type: getTypeByCode(expanded.type),
+      isEveryday: false,
+      selectedDays: date ? [] : [expanded.day],
+      ...(date && { kind: "once" as const, date }),
+      hour: expanded.hour,
+      minute: expanded.minute,
+      ...getOptions(expanded),
+      ...(compartments && { compartments }),
+    })
+  })
+
+  const byDays = Array.from(grouped.values()).map((alert) => {
+    const selectedDays = [...alert.selectedDays].sort()
+    return selectedDays.length === 7 ? { ...alert, isEveryday: true, selectedDays: [] } : { ...alert, selectedDays }
+  })
+
+  const merged = new Map<string, Alert>()
+  byDays.forEach((alert) => {
+    const key = [alert.type, alert.message, alert.date, alert.selectedDays.join(" "), formatOptionFields(alert)].join("\u0000")
+    const existing = merged.get(key)
+    if (existing) {
+      existing.extraTimes = [...(existing.extraTimes ?? []), { hour: alert.hour, minute: alert.minute }]
+      if (alert.compartments) existing.compartments = { ...existing.compartments, ...alert.compartments }
+    } else {
+      merged.set(key, alert)
+    }
+  })
+
+  const alerts = Array.from(merged.values()).map((alert) => {
+    if (!alert.extraTimes) return alert
+    const [first, ...extraTimes] = [{ hour: alert.hour, minute: alert.minute }, ...alert.extraTimes].sort((a, b) =>
+      formatTime(a).localeCompare(formatTime(b)),
+    )
+    return { ...alert, hour: first.hour, minute: first.minute, extraTimes }
+  })
+
+  return {
+    name: frame.name,
+    phone: frame.phone,
+    email: frame.email,
+    medicalInfo: frame.medicalInfo,
+    deviceId: frame.deviceId,
+    protocolVersion: Math.max(frame.version, DEFAULT_WIRE_FORMAT_VERSION),
+    extendedAlertTypes: frame.alerts.some((alert) => isExtendedTypeCode(alert.type)),
+    alerts,
+  }
+}
@@ -1,75 +1,214 @@
 """
 Python backend script to process medical alert data.
 This script formats the alert data into the specified string format.
+
+Only wire format v1 is written, with the r/m alert type codes and text sent
+as entered. Configurations the dashboard would send differently (format v2,
+extended alert types, or text that needs transliterating for an ascii or
+latin1 display) are rejected with a ValueError rather than formatted wrongly.
 """
 
 from typing import List, Dict
 import json
+import zlib
+
+
+WIRE_FORMAT_VERSION = 1
+
+# Categories older firmware does not know are sent as the closest of 'r' and 'm'.
+MEDICINE_LIKE_TYPES = ('Medicine', 'Vitals')
+
+# Types whose extended code is the same as their r/m fallback.
+BASIC_TYPES = ('Medicine', 'Reminder')
+
+TEXT_FIELDS = ('name', 'phone', 'email', 'medicalInfo')
+
+
+def normalize_charset(charset: str = None) -> str:
+    """Same names as the dashboard: anything unrecognised is utf8."""
+    normalized = (charset or '').lower().replace('-', '').replace('_', '').replace(' ', '')
+    if normalized in ('ascii', 'usascii'):
+        return 'ascii'
+    if normalized in ('latin1', 'iso88591'):
+        return 'latin1'
+    return 'utf8'
+
+
+def can_display(text: str, charset: str) -> bool:
+    """Whether the device shows the text unchanged, without transliteration."""
+    if charset == 'utf8':
+        return True
+    return all(
+        char in '\n\r\t' or 0x20 <= ord(char) <= 0x7E or (charset == 'latin1' and 0xA0 <= ord(char) <= 0xFF)
+        for char in text
+    )
+
+
+def check_supported(data: Dict) -> None:
+    """
+    Raise ValueError for configurations this script cannot format the way
+    the dashboard does.
+    """
+    version = data.get('protocolVersion') or WIRE_FORMAT_VERSION
+    if version != WIRE_FORMAT_VERSION:
+        raise ValueError(f"Only wire format v{WIRE_FORMAT_VERSION} is supported, not v{version}")
+
+    if data.get('extendedAlertTypes'):
+        extended = sorted({alert['type'] for alert in data['alerts'] if alert['type'] not in BASIC_TYPES})
+        if extended:
+            raise ValueError(f"Extended alert type codes are not supported: {', '.join(extended)}")
+
+    charset = normalize_charset(data.get('charset'))
+    texts = [data[key] for key in TEXT_FIELDS] + [alert['message'] for alert in data['alerts']]
+    if not all(can_display(text, charset) for text in texts):
+        raise ValueError(f"Text must be transliterated for the {charset} display, which is not supported")
+
+
+def escape_field(value: str) -> str:
+    """
+    Escape a free-text field so it cannot break the framing.
+    Backslash, comma, CR and LF are backslash-escaped, as is a leading '@'.
+    """
+    escaped = (
+        value.replace('\\', '\\\\')
+        .replace(',', '\\,')
+        .replace('\r', '\\r')
+        .replace('\n', '\\n')
+    )
+    return '\\' + escaped if escaped.startswith('@') else escaped
+
+
+def alert_times(alert: Dict, day: str = None) -> List[tuple]:
+    """
+    Times of day an alert fires, as (hour, minute) strings in ascending order.
+    Fixed alerts fire at hour:minute (or the day's entry in dayTimes) and
+    each of their extraTimes.
+    Interval alerts repeat every intervalHours from the start time, until the
+    end time if one is set and otherwise around the clock.
+    """
+    start = int(alert['hour']) * 60 + int(alert['minute'])
+    override = (alert.get('dayTimes') or {}).get(day)
+    first = int(override['hour']) * 60 + int(override['minute']) if override else start
+    times = [first] + [int(time['hour']) * 60 + int(time['minute']) for time in alert.get('extraTimes') or []]
+
+    if alert.get('kind') == 'interval' and int(alert.get('intervalHours') or 0) > 0:
+        interval = int(alert['intervalHours']) * 60
+        if alert.get('endHour'):
+            end = int(alert['endHour']) * 60 + int(alert.get('endMinute') or 0)
+            times = list(range(start, end + 1, interval))
+        else:
+            times = [time % (24 * 60) for time in range(start, start + 24 * 60, interval)]
+
+    return [(str(time // 60).zfill(2), str(time % 60).zfill(2)) for time in sorted(set(times))]
+
+
+OPTION_FIELDS = ['startDate', 'endDate', 'snoozeMinutes', 'maxRepeats', 'escalateAfterMinutes']
+
+
+def option_fields(alert: Dict, compartment: str = None) -> str:
+    """
+    Optional fields appended after the message: the course dates as a pair
+    when either is set, followed by the snooze, repeat and escalation
+    settings when any of those is set, and finally the dispenser compartment
+    of this dose if it has one.
+    """
+    if compartment:
+        return ''.join(f",{alert.get(field) or ''}" for field in OPTION_FIELDS) + f",{compartment}"
+    if any(alert.get(field) for field in OPTION_FIELDS[2:]):
+        count = 5
+    elif any(alert.get(field) for field in OPTION_FIELDS[:2]):
+        count = 2
+    else:
+        count = 0
+    return ''.join(f",{alert.get(field) or ''}" for field in OPTION_FIELDS[:count])
 
 
 def format_alert_data(data: Dict) -> str:
     """
     Format alert data into the specified string format.
-    Expands alerts based on selected days (everyday or specific days).
+    Expands alerts based on selected days (everyday or specific days) and
+    times of day (interval alerts fire several times a day).
     
     Format:
+    Header: @RX,{version}
     Line 1: {number of total expanded alerts}
-    Lines 2-n: {type},{day},{hour},{minute},{message}
+    Lines 2-n: {type},{day},{hour},{minute},{message}[,{start date},{end date}[,{snooze},{repeats},{escalate}[,{compartment}]]]
     Second to last: {name},{phone},{email}
     Last: {medical_info}
     Last: {device_id}
+    Trailer: @END,{checksum}
+
+    The checksum is the CRC-32 of every line before the trailer, joined with
+    LF and encoded as UTF-8, written as 8 uppercase hex digits.
+
+    One-off alerts write their yyyy-mm-dd date in place of the day.
+    Alerts limited to a course of treatment append their start and end dates
+    (yyyy-mm-dd, empty when open-ended), and alerts with follow-up settings
+    add snooze minutes, maximum repeats and minutes before escalation after
+    them; medicine doses assigned to a dispenser compartment add its number
+    last; other alert lines are unchanged.
+
+    Raises ValueError for configurations check_supported rejects.
     """
-    lines = []
+    check_supported(data)
+
+    lines = [f"@RX,{WIRE_FORMAT_VERSION}"]
     
     # Expand alerts based on selected days
     expanded_alerts = []
     
     for alert in data['alerts']:
-        alert_type = 'r' if alert['type'] == 'Reminder' else 'm'
-        hour = alert['hour'].zfill(2)  # Pad with zeros
-        minute = alert['minute'].zfill(2)  # Pad with zeros
+        alert_type = 'm' if alert['type'] in MEDICINE_LIKE_TYPES else 'r'
         message = alert['message']
+        compartments = (alert.get('compartments') or {}) if alert['type'] == 'Medicine' else {}
         
-        # If everyday, create alert for all 7 days
-        if alert.get('isEveryday', False):
-            for day in range(7):
-                expanded_alerts.append({
-                    'type': alert_type,
-                    'day': str(day),
-                    'hour': hour,
-                    'minute': minute,
-                    'message': message
-                })
+        # One-off alerts carry their date in place of the weekday;
+        # if everyday, create alert for all 7 days
+        if alert.get('kind') == 'once':
+            days = [alert['date']]
+        elif alert.get('isEveryday', False):
+            days = [str(day) for day in range(7)]
         else:
-            # Create alert for each selected day
-            for day in alert.get('selectedDays', []):
-                expanded_alerts.append({
-                    'type': alert_type,
-                    'day': day,
-                    'hour': hour,
-                    'minute': minute,
-                    'message': message
-                })
+            days = alert.get('selectedDays', [])
+
+        # One alert per time of day and day, ordered by time
+        slots = sorted(
+            ((time, day) for day in days for time in alert_times(alert, day)),
+            key=lambda slot: slot[0]
+        )
+        for (hour, minute), day in slots:
+            expanded_alerts.append({
+                'type': alert_type,
+                'day': day,
+                'hour': hour,
+                'minute': minute,
+                'message': message,
+                'options': option_fields(alert, compartments.get(f"{day}@{hour}:{minute}"))
+            })
     
     # Line 1: Total number of expanded alerts
     lines.append(str(len(expanded_alerts)))
     
     # Lines 2-n: Each expanded alert formatted
     for alert in expanded_alerts:
-        alert_line = f"{alert['type']},{alert['day']},{alert['hour']},{alert['minute']},{alert['message']}"
+        alert_line = f"{alert['type']},{alert['day']},{alert['hour']},{alert['minute']},{escape_field(alert['message'])}{alert['options']}"
         lines.append(alert_line)
     
     # Contact info line
-    contact_line = f"{data['name']},{data['phone']},{data['email']}"
+    contact_line = ','.join(escape_field(data[key]) for key in ('name', 'phone', 'email'))
     lines.append(contact_line)
     
     # Medical info line
-    lines.append(data['medicalInfo'])
+    lines.append(escape_field(data['medicalInfo']))
     
     # Device ID line
     lines.append(str(data['deviceId']))
     
-    return '\n'.join(lines)
+    # Frame trailer with CRC-32 over everything above it
+    frame_body = '\n'.join(lines)
+    checksum = zlib.crc32(frame_body.encode('utf-8')) & 0xFFFFFFFF
+    
+    return f"{frame_body}\n@END,{checksum:08X}"
 
 
 def process_alert_file(input_file: str, output_file: str):
@@ -150,7 +289,7 @@ if __name__ == "__main__":
     formatted = format_alert_data(example_data)
     print(formatted)
     print("=" * 50)
-    print(f"\nTotal expanded alerts: {formatted.split(chr(10))[0]}")
+    print(f"\nTotal expanded alerts: {formatted.split(chr(10))[1]}")
     
     # Uncomment to process from file:
     # process_alert_file('input.json', 'output.txt')